@@ -17,6 +17,11 @@ export default {
             vectorStore: {
                 provider: "memory", // Use in-memory for development
             },
+            chunking: {
+                strategy: "markdown", // Keep headings, code blocks and tables intact
+                maxTokens: 500,
+                overlap: 50,
+            },
             retrieval: {
                 strategy: "vector",
                 topK: 5,
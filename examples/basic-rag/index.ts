@@ -64,7 +64,7 @@ async function main() {
     // Ingest documents
     console.log("📥 Ingesting documents...");
     const ingestResult = await ragEngine.ingest(documents);
-    console.log(`✅ Processed ${ingestResult.processed} documents into ${ingestResult.chunks} chunks\n`);
+    console.log(`✅ Processed ${ingestResult.processed} documents into ${ingestResult.chunks} chunks (${ingestResult.added} added, ${ingestResult.skipped} unchanged)\n`);
 
     // Query 1: Should have sufficient context
     console.log("❓ Query 1: What is RAGX?");
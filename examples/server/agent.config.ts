@@ -2,6 +2,7 @@ export default {
     agents: [
         {
             name: "docs-assistant",
+            description: "RAGX documentation: setup, configuration and API usage",
             enabled: true,
             model: {
                 provider: "openai",
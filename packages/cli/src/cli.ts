@@ -8,7 +8,7 @@ import { loadConfig } from "@ragx/config";
 import { startServer } from "@ragx/server";
 import { RAGEngine } from "@ragx/core";
 import { createEmbeddingProvider } from "@ragx/embeddings";
-import { createLLMProvider, createReranker } from "@ragx/llm";
+import { createLLMProvider, createReranker, getRerankerConfig } from "@ragx/llm";
 import { createVectorStore } from "@ragx/vectordb";
 import { DirectoryLoader } from "@ragx/document-loaders";
 
@@ -177,13 +177,15 @@ program
             const vectorStore = createVectorStore(agentConfig.vectorStore);
 
             // Optional Reranker
-            let reranker: any;
-            if (agentConfig.retrieval?.rerankModel) {
-                const cohereApiKey = apiKeys["cohere"] || llmApiKey;
-                if (cohereApiKey) {
-                    reranker = createReranker(agentConfig.retrieval.rerankModel, cohereApiKey);
-                }
-            }
+            const rerankerConfig = getRerankerConfig(agentConfig.retrieval);
+            const reranker = rerankerConfig
+                ? createReranker(rerankerConfig, {
+                    cohereApiKey: apiKeys["cohere"],
+                    llm,
+                    embeddings,
+                    analyzer: agentConfig.vectorStore.analyzer,
+                })
+                : undefined;
 
             // Create RAG engine
             const engine = new RAGEngine(agentConfig, llm, embeddings, vectorStore, reranker);
@@ -202,9 +204,34 @@ program
             spinner.text = `Ingesting ${documents.length} documents into "${agentName}"...`;
             spinner.start();
 
-            const result = await engine.ingest(documents);
+            // Per-document progress, the same events ingestion jobs report
+            let completed = 0;
+            let failed = 0;
+            const result = await engine.ingest(documents, {
+                // Documents previously ingested from this directory but deleted since are removed
+                prune: { directory: fullPath },
+                onProgress: (progress) => {
+                    if (progress.status === "completed") completed++;
+                    if (progress.status === "failed") failed++;
+
+                    const retry = progress.status === "processing" && progress.attempts > 1 ? ` (attempt ${progress.attempts})` : "";
+                    spinner.text = `Ingesting into "${agentName}": ${completed + failed}/${documents.length} documents`
+                        + `${failed > 0 ? chalk.red(` (${failed} failed)`) : ""} ${chalk.gray(`${progress.source}${retry}`)}`;
+                },
+            });
+
+            const summary = chalk.gray(`  ${result.added} added, ${result.updated} updated, ${result.skipped} unchanged, ${result.removed} removed`);
+            if (result.failed > 0) {
+                spinner.warn(chalk.yellow(`Ingested ${result.processed} of ${documents.length} documents into agent "${agentName}"; ${result.failed} failed`));
+                console.log(summary);
+                for (const failure of result.errors) {
+                    console.log(chalk.red(`  ✖ ${failure.source}: ${failure.error}`));
+                }
+                process.exit(1);
+            }
 
             spinner.succeed(chalk.green(`Successfully ingested ${result.processed} documents (${result.chunks} chunks) into agent "${agentName}"`));
+            console.log(summary);
         } catch (error) {
             spinner.fail(chalk.red("Ingestion failed"));
             console.error(error);
@@ -20,6 +20,8 @@ export const ModelConfigSchema = z.object({
     temperature: z.number().min(0).max(2).optional().default(0.7),
     maxTokens: z.number().positive().optional(),
     topP: z.number().min(0).max(1).optional(),
+    tokenizer: z.enum(["auto", "approximate", "cl100k_base", "o200k_base"]).optional().default("auto"),
+    contextWindow: z.number().int().positive().optional(),
 });
 
 /**
@@ -43,8 +45,35 @@ export const VectorStoreConfigSchema = z.object({
     collection: z.string().optional(),
     namespace: z.string().optional(),
     distanceMetric: z.enum(["cosine", "innerProduct", "chebyshev", "manhattan", "euclidean"]).optional().default("cosine"),
+    /** Text analyzer of the BM25 keyword index used by the keyword and hybrid strategies */
+    analyzer: z.enum(["english", "german", "french", "spanish", "simple"]).optional().default("english"),
 });
 
+/**
+ * Chunking configuration schema
+ */
+export const ChunkingConfigSchema = z
+    .object({
+        strategy: z.enum(["fixed", "semantic", "recursive", "markdown", "hierarchical"]).optional().default("fixed"),
+        maxTokens: z.number().int().positive().optional().default(500),
+        /**
+         * Tokens repeated at the start of the next chunk
+         * Structure-aware strategies repeat whole sentences, lines or blocks; hierarchical child chunks don't overlap
+         */
+        overlap: z.number().int().min(0).optional().default(50),
+        minTokens: z.number().int().min(0).optional().default(100),
+        /** Size of the parent sections of the hierarchical strategy; maxTokens sizes the child chunks */
+        parentMaxTokens: z.number().int().positive().optional().default(1500),
+    })
+    .refine((chunking) => chunking.overlap < chunking.maxTokens, {
+        message: "Chunk overlap must be smaller than maxTokens",
+        path: ["overlap"],
+    })
+    .refine((chunking) => chunking.strategy !== "hierarchical" || chunking.parentMaxTokens > chunking.maxTokens, {
+        message: "Parent sections must be larger than maxTokens",
+        path: ["parentMaxTokens"],
+    });
+
 /**
  * Compression configuration schema
  */
@@ -54,6 +83,56 @@ export const CompressionConfigSchema = z.object({
     maxTokensPerDoc: z.number().int().positive().optional(),
 });
 
+/**
+ * Hybrid fusion configuration schema
+ */
+export const FusionConfigSchema = z.object({
+    method: z.enum(["rrf", "minmax", "zscore"]).optional().default("rrf"),
+    /** Weight of vector results; keyword results get 1 - alpha */
+    alpha: z.number().min(0).max(1).optional().default(0.5),
+    /** RRF rank constant */
+    k: z.number().int().positive().optional().default(60),
+});
+
+/**
+ * Score thresholds per scoring stage
+ * Unset stages use scoreThreshold; fused hybrid scores default to 0 since the vector and keyword results are thresholded before fusion
+ */
+export const ScoreThresholdsConfigSchema = z.object({
+    vector: z.number().min(0).max(1).optional(),
+    keyword: z.number().min(0).max(1).optional(),
+    hybrid: z.number().min(0).max(1).optional(),
+    rerank: z.number().min(0).max(1).optional(),
+});
+
+/**
+ * Reranker configuration schema
+ * - cohere: Cohere rerank API
+ * - llm: the agent's model judges relevance, one passage per call (pointwise) or all at once (listwise)
+ * - lexical: local query term coverage and proximity scoring
+ * - mmr: maximal marginal relevance over query and chunk embeddings
+ */
+export const RerankerConfigSchema = z.object({
+    provider: z.enum(["cohere", "llm", "lexical", "mmr"]).optional().default("cohere"),
+    /** Cohere rerank model */
+    model: z.string().optional(),
+    mode: z.enum(["pointwise", "listwise"]).optional().default("pointwise"),
+    /** Passages the llm reranker grades at once in pointwise mode */
+    concurrency: z.number().int().positive().optional().default(4),
+    /** MMR trade-off between relevance (1) and diversity (0) */
+    lambda: z.number().min(0).max(1).optional().default(0.7),
+});
+
+/**
+ * Maximal marginal relevance configuration schema
+ * Diversifies the top-K using the stored chunk embeddings
+ */
+export const MMRConfigSchema = z.object({
+    enabled: z.boolean().optional().default(false),
+    /** Trade-off between relevance (1) and diversity (0) */
+    lambda: z.number().min(0).max(1).optional().default(0.7),
+});
+
 /**
  * Retrieval configuration schema
  */
@@ -61,11 +140,33 @@ export const RetrievalConfigSchema = z.object({
     strategy: z.enum(["vector", "keyword", "hybrid"]).optional().default("vector"),
     topK: z.number().int().min(1).max(100).optional().default(5),
     scoreThreshold: z.number().min(0).max(1).optional().default(0.7),
+    scoreThresholds: ScoreThresholdsConfigSchema.optional(),
     parentRetrieval: z.boolean().optional().default(false),
+    /** Maximum tokens of a parent returned in place of a matched chunk */
+    parentTokenBudget: z.number().int().positive().optional().default(2000),
+    /** Neighboring chunks added on each side of a hit; narrowed to fit the context budget */
+    neighborChunks: z.number().int().min(0).max(5).optional().default(0),
     rerank: z.boolean().optional().default(false),
+    /** Cohere rerank model; shorthand for `reranker: { provider: "cohere", model }` */
     rerankModel: z.string().optional(),
+    reranker: RerankerConfigSchema.optional(),
     multiQuery: z.boolean().optional().default(false),
     compression: CompressionConfigSchema.optional(),
+    fusion: FusionConfigSchema.optional(),
+    mmr: MMRConfigSchema.optional(),
+});
+
+/**
+ * Memory store configuration schema
+ */
+export const MemoryStoreConfigSchema = z.object({
+    provider: z.enum(["memory", "file", "libsql"]).optional().default("memory"),
+    /** Directory of the file store; each agent keeps its sessions in a subdirectory */
+    path: z.string().optional(),
+    url: z.string().optional(),
+    authToken: z.string().optional(),
+    /** Table of the libSQL store; agents sharing it only see their own sessions */
+    table: z.string().optional(),
 });
 
 /**
@@ -74,6 +175,41 @@ export const RetrievalConfigSchema = z.object({
 export const MemoryConfigSchema = z.object({
     type: z.enum(["buffer", "summary", "none"]).optional().default("none"),
     maxMessages: z.number().int().positive().optional().default(10),
+    ttl: z.number().int().positive().optional(),
+    store: MemoryStoreConfigSchema.optional(),
+});
+
+/**
+ * Document manifest store configuration schema
+ */
+export const DocumentManifestConfigSchema = z.object({
+    /** Defaults to the vector store's persistence: libSQL for libsql, memory for memory, otherwise file */
+    provider: z.enum(["memory", "file", "libsql"]).optional(),
+    path: z.string().optional(),
+    url: z.string().optional(),
+    authToken: z.string().optional(),
+    table: z.string().optional(),
+});
+
+/**
+ * Parent document store configuration schema
+ * Holds full documents for parent retrieval
+ */
+export const DocumentStoreConfigSchema = z.object({
+    /** Defaults to the vector store's persistence: libSQL for libsql, memory for memory, otherwise file */
+    provider: z.enum(["memory", "file", "libsql"]).optional(),
+    path: z.string().optional(),
+    url: z.string().optional(),
+    authToken: z.string().optional(),
+    table: z.string().optional(),
+});
+
+/**
+ * Ingested document configuration schema
+ */
+export const DocumentsConfigSchema = z.object({
+    manifest: DocumentManifestConfigSchema.optional(),
+    store: DocumentStoreConfigSchema.optional(),
 });
 
 /**
@@ -99,11 +235,42 @@ export const EndpointsConfigSchema = z.object({
  * Query transformation configuration schema
  */
 export const QueryTransformationConfigSchema = z.object({
+    /** Turn follow-up questions into standalone questions using the session history */
+    condense: z.boolean().optional().default(false),
     rewrite: z.boolean().optional().default(false),
     expand: z.boolean().optional().default(false),
     decompose: z.boolean().optional().default(false),
     hyde: z.boolean().optional().default(false),
     maxExpansions: z.number().int().min(1).max(10).optional().default(3),
+    /** Answer each decomposed sub-question in turn, then synthesize the final answer from the steps */
+    multiHop: z.boolean().optional().default(false),
+    maxSteps: z.number().int().min(2).max(10).optional().default(4),
+});
+
+/**
+ * Pipeline stage hook schema
+ * Receives the pipeline context and a `next` function that runs the default stage
+ * The context is the core `PipelineContext`, typed as unknown here since config cannot depend on core
+ */
+const PipelineHookSchema = z.custom<(context: unknown, next: () => Promise<void>) => Promise<void>>(
+    (value) => typeof value === "function",
+    { message: "Pipeline hook must be a function" },
+);
+
+/**
+ * Pipeline hooks configuration schema
+ * Hooks are functions, so they can only be set on configs built in code
+ */
+export const PipelineConfigSchema = z.object({
+    history: PipelineHookSchema.optional(),
+    transform: PipelineHookSchema.optional(),
+    retrieve: PipelineHookSchema.optional(),
+    expand: PipelineHookSchema.optional(),
+    compress: PipelineHookSchema.optional(),
+    buildContext: PipelineHookSchema.optional(),
+    generate: PipelineHookSchema.optional(),
+    verify: PipelineHookSchema.optional(),
+    persist: PipelineHookSchema.optional(),
 });
 
 /**
@@ -117,15 +284,20 @@ export const AgentConfigSchema = z
             .refine((name) => !FORBIDDEN_AGENT_NAMES.includes(name), {
                 message: `Agent name cannot be one of: ${FORBIDDEN_AGENT_NAMES.join(", ")}`,
             }),
+        /** What the agent knows about; used to route questions between agents */
+        description: z.string().optional(),
         enabled: z.boolean().optional().default(true),
         model: ModelConfigSchema,
         embeddings: EmbeddingsConfigSchema,
         vectorStore: VectorStoreConfigSchema,
+        chunking: ChunkingConfigSchema.optional(),
         retrieval: RetrievalConfigSchema.optional(),
         memory: MemoryConfigSchema.optional(),
+        documents: DocumentsConfigSchema.optional(),
         tools: z.array(ToolConfigSchema).optional(),
         queryTransformation: QueryTransformationConfigSchema.optional(),
         endpoints: EndpointsConfigSchema.optional(),
+        pipeline: PipelineConfigSchema.optional(),
     })
     .strict();
 
@@ -154,6 +326,32 @@ export const AuthConfigSchema = z.object({
     header: z.string().optional().default("Authorization"),
 });
 
+/**
+ * File upload configuration schema
+ */
+export const UploadConfigSchema = z.object({
+    /** Maximum size of a single file in bytes */
+    maxFileSize: z.number().int().positive().optional().default(10 * 1024 * 1024),
+    /** Maximum number of files per request */
+    maxFiles: z.number().int().positive().optional().default(20),
+});
+
+/**
+ * Query routing configuration schema
+ * - description: keyword overlap between the question and the agent descriptions
+ * - llm: the router agent's model picks the agents
+ * - embedding: similarity between the question and the agent descriptions
+ */
+export const RouterConfigSchema = z.object({
+    strategy: z.enum(["description", "llm", "embedding"]).optional().default("embedding"),
+    /** Agent whose model routes and answers; defaults to the first enabled agent */
+    agent: z.string().optional(),
+    /** Maximum agents a question is sent to */
+    maxAgents: z.number().int().positive().optional().default(2),
+    /** Minimum description or embedding score for an agent to be picked */
+    minScore: z.number().min(0).max(1).optional().default(0.3),
+});
+
 /**
  * Server configuration schema
  */
@@ -163,6 +361,8 @@ export const ServerConfigSchema = z.object({
     cors: CorsConfigSchema.optional(),
     rateLimit: RateLimitConfigSchema.optional(),
     auth: AuthConfigSchema.optional(),
+    upload: UploadConfigSchema.optional(),
+    router: RouterConfigSchema.optional(),
 });
 
 /**
@@ -215,15 +415,27 @@ export const RagxConfigSchema = z
 export type ModelConfig = z.infer<typeof ModelConfigSchema>;
 export type EmbeddingsConfig = z.infer<typeof EmbeddingsConfigSchema>;
 export type VectorStoreConfig = z.infer<typeof VectorStoreConfigSchema>;
+export type ChunkingConfig = z.infer<typeof ChunkingConfigSchema>;
+export type FusionConfig = z.infer<typeof FusionConfigSchema>;
+export type ScoreThresholdsConfig = z.infer<typeof ScoreThresholdsConfigSchema>;
+export type MMRConfig = z.infer<typeof MMRConfigSchema>;
+export type RerankerConfig = z.infer<typeof RerankerConfigSchema>;
 export type RetrievalConfig = z.infer<typeof RetrievalConfigSchema>;
+export type MemoryStoreConfig = z.infer<typeof MemoryStoreConfigSchema>;
 export type MemoryConfig = z.infer<typeof MemoryConfigSchema>;
+export type DocumentManifestConfig = z.infer<typeof DocumentManifestConfigSchema>;
+export type DocumentStoreConfig = z.infer<typeof DocumentStoreConfigSchema>;
+export type DocumentsConfig = z.infer<typeof DocumentsConfigSchema>;
 export type ToolConfig = z.infer<typeof ToolConfigSchema>;
 export type EndpointsConfig = z.infer<typeof EndpointsConfigSchema>;
 export type QueryTransformationConfig = z.infer<typeof QueryTransformationConfigSchema>;
+export type PipelineConfig = z.infer<typeof PipelineConfigSchema>;
 export type AgentConfig = z.infer<typeof AgentConfigSchema>;
 export type CorsConfig = z.infer<typeof CorsConfigSchema>;
 export type RateLimitConfig = z.infer<typeof RateLimitConfigSchema>;
 export type AuthConfig = z.infer<typeof AuthConfigSchema>;
+export type UploadConfig = z.infer<typeof UploadConfigSchema>;
+export type RouterConfig = z.infer<typeof RouterConfigSchema>;
 export type ServerConfig = z.infer<typeof ServerConfigSchema>;
 export type LoggingConfig = z.infer<typeof LoggingConfigSchema>;
 export type MetricsConfig = z.infer<typeof MetricsConfigSchema>;
@@ -0,0 +1,270 @@
+import type { ModelConfig } from "@ragx/config";
+import { createAnalyzer, type TextAnalyzer } from "./bm25";
+import { ContextBuilder } from "./context-builder";
+import { fuseRankings } from "./fusion";
+import type {
+    IEmbeddingProvider,
+    ILLMProvider,
+    IRAGEngine,
+    RAGResponse,
+    RAGSource,
+    RetrievalResult,
+    RetrievedDocument,
+    RetrieveOptions,
+} from "./interfaces";
+import { Logger } from "./logger";
+import { cosineSimilarity } from "./mmr";
+import { createTokenizer, getPromptBudget } from "./tokenizer";
+
+/**
+ * How the router picks agents for a question
+ * - description: share of the question's terms found in each agent description
+ * - llm: the model picks from the agent names and descriptions
+ * - embedding: similarity between the question and each agent description
+ */
+export type RoutingStrategy = "description" | "llm" | "embedding";
+
+/**
+ * Agent the router can send questions to
+ */
+export interface RoutableAgent {
+    name: string;
+    /** What the agent knows about; the name is used when missing */
+    description?: string | undefined;
+    engine: IRAGEngine;
+}
+
+/**
+ * Agent picked for a question with its routing score in 0..1
+ */
+export interface AgentRoute {
+    agent: string;
+    score: number;
+}
+
+/**
+ * Source of a routed answer with the agent that retrieved it
+ */
+export interface RoutedSource extends RAGSource {
+    agent: string;
+}
+
+/**
+ * Answer synthesized from the sources of the routed agents
+ */
+export interface RoutedResponse extends Pick<RAGResponse, "answer" | "contextSufficient" | "usage"> {
+    sources: RoutedSource[];
+    /** Agents the question was sent to, best first */
+    routes: AgentRoute[];
+}
+
+/**
+ * Retrieved chunk with the agent whose store it came from
+ */
+interface RoutedDocument extends RetrievedDocument {
+    agent: string;
+}
+
+export interface RoutedQueryOptions extends Omit<RetrieveOptions, "scoreThreshold"> {
+    temperature?: number;
+}
+
+export interface AgentRouterOptions {
+    /** Routing strategy (default embedding) */
+    strategy?: RoutingStrategy | undefined;
+    /** Maximum agents a question is sent to (default 2) */
+    maxAgents?: number | undefined;
+    /** Minimum description or embedding score for an agent to be picked (default 0.3) */
+    minScore?: number | undefined;
+    /** Analyzer for the description strategy (default english) */
+    analyzer?: TextAnalyzer | undefined;
+}
+
+/**
+ * Routes questions across agents
+ * The picked agents retrieve in parallel, their rankings are fused and one answer is generated from them
+ */
+export class AgentRouter {
+    private readonly strategy: RoutingStrategy;
+    private readonly maxAgents: number;
+    private readonly minScore: number;
+    private readonly analyzer: TextAnalyzer;
+    private readonly contextBuilder: ContextBuilder;
+    private readonly maxContextTokens: number;
+    private readonly descriptionEmbeddings = new Map<string, number[]>();
+
+    constructor(
+        private readonly model: ModelConfig,
+        private readonly llmProvider: ILLMProvider,
+        private readonly embeddingProvider: IEmbeddingProvider,
+        options: AgentRouterOptions = {},
+    ) {
+        this.strategy = options.strategy ?? "embedding";
+        this.maxAgents = Math.max(options.maxAgents ?? 2, 1);
+        this.minScore = options.minScore ?? 0.3;
+        this.analyzer = options.analyzer ?? createAnalyzer("english");
+        this.contextBuilder = new ContextBuilder(undefined, createTokenizer(model.tokenizer, model.model));
+        this.maxContextTokens = getPromptBudget(model.model, model.contextWindow, model.maxTokens);
+    }
+
+    /**
+     * Pick the agents for a question, best first
+     * The llm strategy keeps the model's picks; the others keep agents scoring at least minScore
+     * When no agent qualifies, the question goes to every agent
+     */
+    async route(question: string, agents: RoutableAgent[]): Promise<AgentRoute[]> {
+        if (agents.length <= 1) {
+            return agents.map((agent) => ({ agent: agent.name, score: 1 }));
+        }
+
+        const routes = this.strategy === "llm"
+            ? await this.classify(question, agents)
+            : (this.strategy === "embedding"
+                ? await this.embeddingScores(question, agents)
+                : this.descriptionScores(question, agents)
+            ).filter((route) => route.score >= this.minScore);
+
+        if (routes.length === 0) {
+            Logger.debug(`No agent matched the question, routing to all ${agents.length} agents`);
+            return agents.map((agent) => ({ agent: agent.name, score: 0 }));
+        }
+
+        return routes.sort((a, b) => b.score - a.score).slice(0, this.maxAgents);
+    }
+
+    /**
+     * Route a question, retrieve from the picked agents and answer once from their fused sources
+     */
+    async query(question: string, agents: RoutableAgent[], options: RoutedQueryOptions = {}): Promise<RoutedResponse> {
+        const routes = await this.route(question, agents);
+        Logger.info(`Routing query to ${routes.map((route) => route.agent).join(", ")}`);
+
+        const topK = options.topK ?? 5;
+        const retrieveOptions = {
+            topK,
+            ...(options.filter ? { filter: options.filter } : {}),
+        };
+        const rankings = await Promise.all(routes.map(async ({ agent }) => {
+            const engine = agents.find((candidate) => candidate.name === agent)?.engine;
+            const results = engine ? await engine.retrieve(question, retrieveOptions) : [];
+            return results.map((result) => this.toDocument(agent, result));
+        }));
+
+        // Chunk IDs are only unique within an agent, so fuse on agent-qualified IDs
+        const documents = fuseRankings(rankings).slice(0, topK);
+        if (documents.length === 0) {
+            return { answer: "INSUFFICIENT_CONTEXT", sources: [], contextSufficient: false, routes };
+        }
+
+        // The context keeps the leading documents that fit the budget
+        const context = this.contextBuilder.build(question, documents, this.maxContextTokens);
+        const used = documents.slice(0, context.documents.length);
+        const response = await this.llmProvider.generate(this.contextBuilder.buildMessages(context), {
+            temperature: options.temperature ?? this.model.temperature,
+            ...(this.model.maxTokens ? { maxTokens: this.model.maxTokens } : {}),
+        });
+
+        const contextSufficient = !response.content.includes("INSUFFICIENT_CONTEXT");
+        return {
+            answer: response.content,
+            sources: contextSufficient
+                ? used.map((doc) => ({
+                    agent: doc.agent,
+                    content: doc.chunk.content,
+                    source: doc.source,
+                    score: doc.score,
+                }))
+                : [],
+            contextSufficient,
+            routes,
+            usage: response.usage,
+        };
+    }
+
+    /**
+     * Share of the question's terms that appear in each description
+     */
+    private descriptionScores(question: string, agents: RoutableAgent[]): AgentRoute[] {
+        const terms = Array.from(new Set(this.analyzer.analyze(question)));
+        return agents.map((agent) => {
+            const described = new Set(this.analyzer.analyze(this.describe(agent)));
+            const matched = terms.filter((term) => described.has(term)).length;
+            return { agent: agent.name, score: terms.length > 0 ? matched / terms.length : 0 };
+        });
+    }
+
+    /**
+     * Cosine similarity between the question and each description
+     * Description embeddings are cached by their text
+     */
+    private async embeddingScores(question: string, agents: RoutableAgent[]): Promise<AgentRoute[]> {
+        const descriptions = agents.map((agent) => this.describe(agent));
+        const missing = Array.from(new Set(descriptions.filter((text) => !this.descriptionEmbeddings.has(text))));
+
+        const [questionEmbedding, ...embeddings] = await this.embeddingProvider.embed([question, ...missing]);
+        if (!questionEmbedding) {
+            throw new Error("Failed to generate query embedding for routing");
+        }
+        missing.forEach((text, index) => {
+            const embedding = embeddings[index];
+            if (embedding) this.descriptionEmbeddings.set(text, embedding);
+        });
+
+        return agents.map((agent, index) => {
+            const embedding = this.descriptionEmbeddings.get(descriptions[index] as string);
+            const similarity = embedding ? cosineSimilarity(questionEmbedding, embedding) : 0;
+            return { agent: agent.name, score: Math.min(Math.max(similarity, 0), 1) };
+        });
+    }
+
+    /**
+     * Let the model pick the agents
+     * Picks score from 1 down in the order the model lists them
+     */
+    private async classify(question: string, agents: RoutableAgent[]): Promise<AgentRoute[]> {
+        const catalog = agents.map((agent) => `- ${agent.name}: ${this.describe(agent)}`).join("\n");
+        const prompt = `Pick the agents that can answer the question, most relevant first, at most ${this.maxAgents}.
+Respond with only the agent names, one per line. Respond with "none" if no agent fits.
+
+Agents:
+${catalog}
+
+Question: ${question}
+
+Agents:`;
+
+        const response = await this.llmProvider.generate(prompt, { temperature: 0, maxTokens: 20 * this.maxAgents + 20 });
+
+        const names = new Set(agents.map((agent) => agent.name));
+        const picked = Array.from(new Set(
+            response.content
+                .split(/[\n,]/)
+                .map((line) => line.replace(/[`"'*]/g, "").replace(/^[\s\-\d.)]+/, "").trim().toLowerCase())
+                .filter((name) => names.has(name)),
+        ));
+
+        return picked.map((agent, index) => ({ agent, score: 1 - index / picked.length }));
+    }
+
+    private describe(agent: RoutableAgent): string {
+        return agent.description?.trim() || agent.name.replace(/-/g, " ");
+    }
+
+    private toDocument(agent: string, result: RetrievalResult): RoutedDocument {
+        return {
+            chunk: {
+                id: `${agent}:${result.id}`,
+                content: result.content,
+                documentId: result.documentId,
+                position: 0,
+                tokenCount: 0,
+                checksum: "",
+                createdAt: new Date(),
+                metadata: result.metadata,
+            },
+            score: result.score,
+            source: result.source,
+            agent,
+        };
+    }
+}
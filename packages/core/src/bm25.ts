@@ -0,0 +1,344 @@
+/**
+ * Languages with built-in stopwords and stemming
+ * "simple" only folds case and diacritics and splits on word boundaries
+ */
+export type AnalyzerLanguage = "english" | "german" | "french" | "spanish" | "simple";
+
+/**
+ * Turns text into the terms stored in and searched against a keyword index
+ */
+export interface TextAnalyzer {
+    analyze(text: string): string[];
+}
+
+/**
+ * BM25 scoring parameters
+ */
+export interface BM25Options {
+    /** Term frequency saturation (default 1.2) */
+    k1?: number;
+    /** Document length normalization (default 0.75) */
+    b?: number;
+    /** Analyzer applied to documents and queries (default English) */
+    analyzer?: TextAnalyzer;
+}
+
+// Stopwords are listed in folded form: lowercase, without diacritics
+const STOPWORDS: Record<Exclude<AnalyzerLanguage, "simple">, string> = {
+    english: `a about above after again against all am an and any are as at be because been before being below
+        between both but by can could did do does doing down during each few for from further had has have having he
+        her here hers herself him himself his how i if in into is it its itself just me more most my myself no nor not
+        now of off on once only or other our ours ourselves out over own same she should so some such than that the
+        their theirs them themselves then there these they this those through to too under until up very was we were
+        what when where which while who whom why will with would you your yours yourself yourselves`,
+    german: `aber alle allem allen aller alles als also am an ander andere anderen auch auf aus bei bin bis bist da
+        damit dann das dass dein deine dem den denn der des dich die dies diese diesem diesen dieser dieses dir doch dort
+        du durch ein eine einem einen einer eines er es euch euer fur hab habe haben hat hatte hier hin ich ihm ihn ihr
+        ihre im in ist ja jede jedem jeden jeder jedes kann kein keine man mein meine mich mir mit muss nach nicht nichts
+        noch nun nur ob oder ohne sein seine sich sie sind so soll uber um und uns unser unter vom von vor war waren was
+        weil welche wenn wer werden wie wir wird wo zu zum zur`,
+    french: `a ai au aux avec avoir ce ces cette ceux comme dans de des du elle elles en est et etaient etait ete
+        etre eu il ils je la le les leur leurs lui ma mais me meme mes moi mon ne nos notre nous on ont ou par pas pour
+        qu que qui sa se ses si son sont sur ta te tes toi ton tu un une vos votre vous y`,
+    spanish: `a al algo algunas algunos ante antes como con contra cual cuando de del desde donde durante e el ella
+        ellas ellos en entre era es esa esas ese eso esos esta estaba estan estas este esto estos fue ha han hasta hay la
+        las le les lo los mas me mi mis mucho muy nada ni no nos o otra otros para pero poco por porque que quien se sea
+        ser si sin sobre son su sus tambien te tiene todo todos tu tus un una uno unos y ya yo`,
+};
+
+/**
+ * Suffixes removed by the light stemmers, longest first; the first match wins
+ */
+const LIGHT_SUFFIXES: Record<"german" | "french" | "spanish", string[]> = {
+    german: ["ungen", "heiten", "keiten", "ung", "heit", "keit", "ern", "em", "er", "en", "es", "e", "s", "n"],
+    french: ["issements", "issement", "ements", "ement", "ations", "ation", "euses", "euse", "ees", "ee", "es", "er", "e", "s", "x"],
+    spanish: ["amientos", "imientos", "amiento", "imiento", "aciones", "acion", "idades", "idad", "mente", "es", "as", "os", "a", "o", "e", "s"],
+};
+
+const MIN_STEM_LENGTH = 3;
+
+/**
+ * Lowercase and strip diacritics so "Café" and "cafe" match
+ */
+function fold(text: string): string {
+    return text.normalize("NFKD").replace(/\p{M}+/gu, "").replace(/ß/g, "ss").toLowerCase();
+}
+
+function tokenize(text: string): string[] {
+    return fold(text).match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+function lightStem(word: string, suffixes: string[]): string {
+    for (const suffix of suffixes) {
+        if (word.endsWith(suffix) && word.length - suffix.length >= MIN_STEM_LENGTH) {
+            return word.slice(0, -suffix.length);
+        }
+    }
+    return word;
+}
+
+function frenchStem(word: string): string {
+    // chevaux -> cheval
+    if (word.endsWith("aux") && word.length > 4) return `${word.slice(0, -3)}al`;
+    return lightStem(word, LIGHT_SUFFIXES.french);
+}
+
+/**
+ * Porter stemmer for English
+ */
+function porterStem(word: string): string {
+    if (word.length <= 2 || !/^[a-z]+$/.test(word)) return word;
+
+    const isConsonant = (w: string, i: number): boolean => {
+        const c = w[i];
+        if (c === "a" || c === "e" || c === "i" || c === "o" || c === "u") return false;
+        if (c === "y") return i === 0 || !isConsonant(w, i - 1);
+        return true;
+    };
+
+    // Number of vowel-consonant sequences: [C](VC)^m[V]
+    const measure = (stem: string): number => {
+        let m = 0;
+        let previousVowel = false;
+        for (let i = 0; i < stem.length; i++) {
+            const vowel = !isConsonant(stem, i);
+            if (!vowel && previousVowel) m++;
+            previousVowel = vowel;
+        }
+        return m;
+    };
+
+    const hasVowel = (stem: string) => Array.from(stem).some((_, i) => !isConsonant(stem, i));
+    const endsDoubleConsonant = (w: string) =>
+        w.length >= 2 && w[w.length - 1] === w[w.length - 2] && isConsonant(w, w.length - 1);
+    const endsCvc = (w: string) =>
+        w.length >= 3
+        && isConsonant(w, w.length - 3)
+        && !isConsonant(w, w.length - 2)
+        && isConsonant(w, w.length - 1)
+        && !"wxy".includes(w[w.length - 1] ?? "");
+
+    // Replace the first matching suffix when its stem satisfies the condition
+    const replace = (w: string, rules: Array<[string, string]>, condition: (stem: string, suffix: string) => boolean): string => {
+        for (const [suffix, replacement] of rules) {
+            if (w.endsWith(suffix)) {
+                const stem = w.slice(0, -suffix.length);
+                return condition(stem, suffix) ? stem + replacement : w;
+            }
+        }
+        return w;
+    };
+
+    let w = word;
+
+    // Step 1a: plurals
+    if (w.endsWith("sses")) w = w.slice(0, -2);
+    else if (w.endsWith("ies")) w = w.slice(0, -2);
+    else if (!w.endsWith("ss") && w.endsWith("s")) w = w.slice(0, -1);
+
+    // Step 1b: past tense and progressive
+    if (w.endsWith("eed")) {
+        if (measure(w.slice(0, -3)) > 0) w = w.slice(0, -1);
+    } else {
+        const suffix = w.endsWith("ed") ? "ed" : w.endsWith("ing") ? "ing" : undefined;
+        if (suffix && hasVowel(w.slice(0, -suffix.length))) {
+            w = w.slice(0, -suffix.length);
+            if (w.endsWith("at") || w.endsWith("bl") || w.endsWith("iz")) {
+                w += "e";
+            } else if (endsDoubleConsonant(w) && !"lsz".includes(w[w.length - 1] ?? "")) {
+                w = w.slice(0, -1);
+            } else if (measure(w) === 1 && endsCvc(w)) {
+                w += "e";
+            }
+        }
+    }
+
+    // Step 1c: y -> i
+    if (w.endsWith("y") && hasVowel(w.slice(0, -1))) w = `${w.slice(0, -1)}i`;
+
+    // Step 2: double suffixes
+    w = replace(w, [
+        ["ational", "ate"], ["tional", "tion"], ["enci", "ence"], ["anci", "ance"], ["izer", "ize"],
+        ["bli", "ble"], ["alli", "al"], ["entli", "ent"], ["eli", "e"], ["ousli", "ous"],
+        ["ization", "ize"], ["ation", "ate"], ["ator", "ate"], ["alism", "al"], ["iveness", "ive"],
+        ["fulness", "ful"], ["ousness", "ous"], ["aliti", "al"], ["iviti", "ive"], ["biliti", "ble"],
+        ["logi", "log"],
+    ], (stem) => measure(stem) > 0);
+
+    // Step 3
+    w = replace(w, [
+        ["icate", "ic"], ["ative", ""], ["alize", "al"], ["iciti", "ic"], ["ical", "ic"], ["ful", ""], ["ness", ""],
+    ], (stem) => measure(stem) > 0);
+
+    // Step 4: single suffixes
+    w = replace(w, [
+        ["ement", ""], ["ment", ""], ["ent", ""], ["ance", ""], ["ence", ""], ["able", ""], ["ible", ""],
+        ["ant", ""], ["ion", ""], ["al", ""], ["er", ""], ["ic", ""], ["ou", ""], ["ism", ""], ["ate", ""],
+        ["iti", ""], ["ous", ""], ["ive", ""], ["ize", ""],
+    ], (stem, suffix) => measure(stem) > 1 && (suffix !== "ion" || /[st]$/.test(stem)));
+
+    // Step 5: final e and double l
+    if (w.endsWith("e")) {
+        const stem = w.slice(0, -1);
+        const m = measure(stem);
+        if (m > 1 || (m === 1 && !endsCvc(stem))) w = stem;
+    }
+    if (w.endsWith("ll") && measure(w) > 1) w = w.slice(0, -1);
+
+    return w;
+}
+
+/**
+ * Analyzer with stopword removal and stemming
+ */
+class LanguageAnalyzer implements TextAnalyzer {
+    constructor(
+        private readonly stopwords: Set<string>,
+        private readonly stem: (word: string) => string,
+    ) { }
+
+    analyze(text: string): string[] {
+        return tokenize(text)
+            .filter((token) => !this.stopwords.has(token))
+            .map((token) => this.stem(token));
+    }
+}
+
+/**
+ * Create the text analyzer for a language
+ */
+export function createAnalyzer(language: AnalyzerLanguage = "english"): TextAnalyzer {
+    switch (language) {
+        case "english":
+            return new LanguageAnalyzer(new Set(STOPWORDS.english.split(/\s+/)), porterStem);
+        case "german":
+            return new LanguageAnalyzer(new Set(STOPWORDS.german.split(/\s+/)), (word) => lightStem(word, LIGHT_SUFFIXES.german));
+        case "french":
+            return new LanguageAnalyzer(new Set(STOPWORDS.french.split(/\s+/)), frenchStem);
+        case "spanish":
+            return new LanguageAnalyzer(new Set(STOPWORDS.spanish.split(/\s+/)), (word) => lightStem(word, LIGHT_SUFFIXES.spanish));
+        case "simple":
+            return { analyze: tokenize };
+        default:
+            throw new Error(`Unknown analyzer language: ${language}`);
+    }
+}
+
+/**
+ * Raw BM25 score that calibrates to 0.5, about a single match of a common term
+ */
+const BM25_HALF_SCORE = 1;
+
+/**
+ * Map a raw BM25 score to 0..1 with `score / (score + halfScore)`
+ * Unlike dividing by the best match, a weak top match stays low, so thresholds can filter it
+ * and keyword scores stay comparable with cosine similarity
+ */
+export function calibrateBM25(score: number, halfScore = BM25_HALF_SCORE): number {
+    return score > 0 ? score / (score + halfScore) : 0;
+}
+
+/**
+ * In-memory BM25 inverted index
+ * Vector stores without native full-text search keep one alongside their vectors
+ */
+export class BM25Index {
+    private readonly k1: number;
+    private readonly b: number;
+    private readonly analyzer: TextAnalyzer;
+    /** term -> document ID -> term frequency */
+    private readonly postings = new Map<string, Map<string, number>>();
+    /** document ID -> analyzed length */
+    private readonly lengths = new Map<string, number>();
+    /** document ID -> distinct terms, so removal only touches its postings */
+    private readonly documentTerms = new Map<string, string[]>();
+    private totalLength = 0;
+
+    constructor(options: BM25Options = {}) {
+        this.k1 = options.k1 ?? 1.2;
+        this.b = options.b ?? 0.75;
+        this.analyzer = options.analyzer ?? createAnalyzer();
+    }
+
+    /**
+     * Number of indexed documents
+     */
+    get size(): number {
+        return this.lengths.size;
+    }
+
+    /**
+     * Index a document, replacing any previous version with the same ID
+     */
+    add(id: string, text: string): void {
+        this.remove([id]);
+
+        const terms = this.analyzer.analyze(text);
+        for (const term of terms) {
+            let documents = this.postings.get(term);
+            if (!documents) {
+                documents = new Map();
+                this.postings.set(term, documents);
+            }
+            documents.set(id, (documents.get(id) ?? 0) + 1);
+        }
+
+        this.lengths.set(id, terms.length);
+        this.documentTerms.set(id, Array.from(new Set(terms)));
+        this.totalLength += terms.length;
+    }
+
+    /**
+     * Remove documents from the index
+     */
+    remove(ids: string[]): void {
+        for (const id of ids) {
+            const length = this.lengths.get(id);
+            if (length === undefined) continue;
+
+            for (const term of this.documentTerms.get(id) ?? []) {
+                const documents = this.postings.get(term);
+                if (documents?.delete(id) && documents.size === 0) this.postings.delete(term);
+            }
+            this.lengths.delete(id);
+            this.documentTerms.delete(id);
+            this.totalLength -= length;
+        }
+    }
+
+    clear(): void {
+        this.postings.clear();
+        this.lengths.clear();
+        this.documentTerms.clear();
+        this.totalLength = 0;
+    }
+
+    /**
+     * Score documents against a query, best first
+     * `accept` restricts the candidates, e.g. to those matching a metadata filter
+     */
+    search(query: string, topK?: number, accept?: (id: string) => boolean): Array<{ id: string; score: number }> {
+        const count = this.lengths.size;
+        if (count === 0) return [];
+
+        const averageLength = this.totalLength / count || 1;
+        const scores = new Map<string, number>();
+
+        for (const term of new Set(this.analyzer.analyze(query))) {
+            const documents = this.postings.get(term);
+            if (!documents) continue;
+
+            const idf = Math.log(1 + (count - documents.size + 0.5) / (documents.size + 0.5));
+            for (const [id, frequency] of documents) {
+                if (accept && !accept(id)) continue;
+
+                const length = this.lengths.get(id) ?? 0;
+                const norm = frequency + this.k1 * (1 - this.b + this.b * length / averageLength);
+                scores.set(id, (scores.get(id) ?? 0) + idf * frequency * (this.k1 + 1) / norm);
+            }
+        }
+
+        const results = Array.from(scores, ([id, score]) => ({ id, score })).sort((a, b) => b.score - a.score);
+        return topK === undefined ? results : results.slice(0, topK);
+    }
+}
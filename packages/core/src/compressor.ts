@@ -2,19 +2,33 @@ import type {
     ICompressor,
     ILLMProvider,
     IEmbeddingProvider,
+    ITokenizer,
     RetrievedDocument,
 } from "./interfaces";
-import { countTokens } from "./document-processor";
+import { BPETokenizer } from "./tokenizer";
+
+/**
+ * Compressor options
+ */
+export interface CompressorOptions {
+    maxTokensPerDoc?: number | undefined;
+    /** Tokenizer used to measure compressed chunks */
+    tokenizer?: ITokenizer | undefined;
+}
 
 /**
  * LLM-based contextual compressor
  * Uses an LLM to extract relevant snippets from chunks
  */
 export class LLMCompressor implements ICompressor {
+    private readonly tokenizer: ITokenizer;
+
     constructor(
         private readonly llmProvider: ILLMProvider,
-        private readonly options: { maxTokensPerDoc?: number | undefined } = {}
-    ) { }
+        private readonly options: CompressorOptions = {}
+    ) {
+        this.tokenizer = options.tokenizer ?? new BPETokenizer();
+    }
 
     async compress(query: string, documents: RetrievedDocument[]): Promise<RetrievedDocument[]> {
         const compressedDocs: RetrievedDocument[] = [];
@@ -45,7 +59,7 @@ Relevant Snippets:`;
                     chunk: {
                         ...doc.chunk,
                         content: distilledContent,
-                        tokenCount: countTokens(distilledContent)
+                        tokenCount: this.tokenizer.countTokens(distilledContent)
                     }
                 };
             }
@@ -67,10 +81,14 @@ Relevant Snippets:`;
  * Splits chunks into sentences and keeps top K based on similarity
  */
 export class EmbeddingsCompressor implements ICompressor {
+    private readonly tokenizer: ITokenizer;
+
     constructor(
         private readonly embeddingProvider: IEmbeddingProvider,
-        private readonly options: { maxTokensPerDoc?: number | undefined } = {}
-    ) { }
+        private readonly options: CompressorOptions = {}
+    ) {
+        this.tokenizer = options.tokenizer ?? new BPETokenizer();
+    }
 
     async compress(query: string, documents: RetrievedDocument[]): Promise<RetrievedDocument[]> {
         // Enforce a sensible default for max tokens per doc if not provided
@@ -100,9 +118,9 @@ export class EmbeddingsCompressor implements ICompressor {
             // 4. Calculate similarities and sort
             const scoredSentences = sentences.map((sentence, i) => {
                 const emb = sentenceEmbeddings[i];
-                if (!emb) return { sentence, similarity: 0, tokens: countTokens(sentence) };
+                if (!emb) return { sentence, similarity: 0, tokens: this.tokenizer.countTokens(sentence) };
                 const similarity = this.cosineSimilarity(queryEmbedding, emb);
-                return { sentence, similarity, tokens: countTokens(sentence) };
+                return { sentence, similarity, tokens: this.tokenizer.countTokens(sentence) };
             });
 
             // Re-order by original appearance but filter by similarity?
@@ -134,7 +152,7 @@ export class EmbeddingsCompressor implements ICompressor {
                 chunk: {
                     ...doc.chunk,
                     content: distilledContent,
-                    tokenCount: countTokens(distilledContent)
+                    tokenCount: this.tokenizer.countTokens(distilledContent)
                 }
             });
         }
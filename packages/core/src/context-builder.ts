@@ -1,5 +1,5 @@
-import { countTokens } from "./document-processor";
-import type { IContextBuilder, RAGContext, RetrievedDocument, ChatMessage } from "./interfaces";
+import type { IContextBuilder, ITokenizer, QueryStep, RAGContext, RetrievedDocument, ChatMessage } from "./interfaces";
+import { BPETokenizer } from "./tokenizer";
 
 /**
  * Context builder implementation
@@ -10,7 +10,10 @@ You must ONLY use information from the context to answer questions.
 If the context does not contain enough information to answer the question, respond with exactly: "INSUFFICIENT_CONTEXT"
 Do not use any prior knowledge or make assumptions beyond what is explicitly stated in the context.`;
 
-    constructor(private readonly systemPrompt?: string) { }
+    constructor(
+        private readonly systemPrompt?: string,
+        private readonly tokenizer: ITokenizer = new BPETokenizer(),
+    ) { }
 
     /**
      * Build context from query and retrieved documents
@@ -22,35 +25,63 @@ Do not use any prior knowledge or make assumptions beyond what is explicitly sta
         history?: ChatMessage[],
     ): RAGContext {
         const systemPrompt = this.systemPrompt || this.defaultSystemPrompt;
-        const usedDocs: RetrievedDocument[] = [];
+        const usedDocs = this.selectDocuments(documents, this.documentBudget(query, maxTokens, history));
+
+        return {
+            query,
+            documents: usedDocs,
+            ...(history ? { history } : {}),
+            systemPrompt,
+        };
+    }
+
+    /**
+     * Tokens left for documents once the system prompt, query and history are counted
+     */
+    documentBudget(query: string, maxTokens: number, history?: ChatMessage[]): number {
+        const systemPrompt = this.systemPrompt || this.defaultSystemPrompt;
         let currentTokens = 0;
 
         // Calculate tokens for fixed parts
         // System prompt
-        currentTokens += countTokens(`System: ${systemPrompt}\n`);
+        currentTokens += this.tokenizer.countTokens(`System: ${systemPrompt}\n`);
 
         // Query + template overhead
-        currentTokens += countTokens(`User: ${query}\nAssistant:`);
+        currentTokens += this.tokenizer.countTokens(`User: ${query}\nAssistant:`);
 
         // History
         if (history && history.length > 0) {
             const historyText = history.map(msg =>
                 `${msg.role === "user" ? "User" : "Assistant"}: ${msg.content}`
             ).join("\n");
-            currentTokens += countTokens(`Conversation History:\n${historyText}\n`);
+            currentTokens += this.tokenizer.countTokens(`Conversation History:\n${historyText}\n`);
         }
 
         // Reserve space for "Context:" header and newlines
-        currentTokens += countTokens("Context:\n\n");
+        currentTokens += this.tokenizer.countTokens("Context:\n\n");
 
-        // Add documents until maxTokens is reached
-        for (const doc of documents) {
-            // Calculate formatting overhead per doc: "\n[N] Source: ... (Score: ...)\n"
-            // content + overhead
-            const docHeader = `\n[0] Source: ${doc.source} (Score: ${doc.score.toFixed(3)})\n`;
-            const docTokens = (doc.chunk.tokenCount || countTokens(doc.chunk.content)) + countTokens(docHeader);
+        return maxTokens - currentTokens;
+    }
 
-            if (currentTokens + docTokens <= maxTokens) {
+    /**
+     * Tokens a document takes in the context, including its source header
+     */
+    documentTokens(doc: RetrievedDocument): number {
+        // Calculate formatting overhead per doc: "\n[N] Source: ... (Score: ...)\n"
+        const docHeader = `\n[0] Source: ${doc.source} (Score: ${doc.score.toFixed(3)})\n`;
+        return (doc.chunk.tokenCount || this.tokenizer.countTokens(doc.chunk.content)) + this.tokenizer.countTokens(docHeader);
+    }
+
+    /**
+     * Take documents in order until the budget is reached
+     */
+    selectDocuments(documents: RetrievedDocument[], budget: number): RetrievedDocument[] {
+        const usedDocs: RetrievedDocument[] = [];
+        let currentTokens = 0;
+
+        for (const doc of documents) {
+            const docTokens = this.documentTokens(doc);
+            if (currentTokens + docTokens <= budget) {
                 usedDocs.push(doc);
                 currentTokens += docTokens;
             } else {
@@ -60,12 +91,7 @@ Do not use any prior knowledge or make assumptions beyond what is explicitly sta
             }
         }
 
-        return {
-            query,
-            documents: usedDocs,
-            ...(history ? { history } : {}),
-            systemPrompt,
-        };
+        return usedDocs;
     }
 
     /**
@@ -148,6 +174,29 @@ Do not use any prior knowledge or make assumptions beyond what is explicitly sta
         return messages;
     }
 
+    /**
+     * System message with the answers of multi-hop steps
+     * Given the context documents, each answer cites the documents its step retrieved by their context number
+     */
+    buildFindingsMessage(steps: QueryStep[], documents?: RetrievedDocument[]): ChatMessage {
+        const findings = steps.map((step, index) => {
+            const answer = step.answer.trim() === "INSUFFICIENT_CONTEXT" ? "Not found in the context." : step.answer;
+            const citations = documents
+                ? step.documents
+                    .map((doc) => documents.findIndex((used) => used.chunk.id === doc.chunk.id))
+                    .filter((position) => position >= 0)
+                    .map((position) => `[${position + 1}]`)
+                : [];
+            return `Step ${index + 1}: ${step.question}\nAnswer: ${answer}${citations.length > 0 ? `\nEvidence: ${citations.join(", ")}` : ""}`;
+        }).join("\n\n");
+
+        const content = documents
+            ? `The question was broken into steps that were answered separately. Combine the step answers into the final answer and cite the evidence documents by their number, e.g. [1].\n\n${findings}`
+            : `Answers to earlier sub-questions, which you may use:\n\n${findings}`;
+
+        return { role: "system", content, timestamp: new Date() };
+    }
+
     /**
      * Verify that the response is grounded in the context
      * Returns true if grounded, false otherwise
@@ -0,0 +1,255 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import { createClient, type Client } from "@libsql/client";
+import type { DocumentManifestConfig, VectorStoreConfig } from "@ragx/config";
+import { defaultDocumentsProvider } from "./document-store";
+import type { DocumentInfo, IDocumentManifest } from "./interfaces";
+
+/**
+ * Serialized form of a manifest entry
+ */
+interface StoredDocumentInfo extends Omit<DocumentInfo, "ingestedAt"> {
+    ingestedAt: string;
+}
+
+function serialize(document: DocumentInfo): StoredDocumentInfo {
+    return { ...document, ingestedAt: document.ingestedAt.toISOString() };
+}
+
+function deserialize(stored: StoredDocumentInfo): DocumentInfo {
+    return { ...stored, ingestedAt: new Date(stored.ingestedAt) };
+}
+
+/**
+ * Process-local document manifest
+ */
+export class InMemoryDocumentManifest implements IDocumentManifest {
+    private readonly documents = new Map<string, DocumentInfo>();
+
+    async get(documentId: string): Promise<DocumentInfo | undefined> {
+        return this.documents.get(documentId);
+    }
+
+    async set(documents: DocumentInfo[]): Promise<void> {
+        for (const document of documents) {
+            this.documents.set(document.id, document);
+        }
+    }
+
+    async delete(documentIds: string[]): Promise<void> {
+        for (const documentId of documentIds) {
+            this.documents.delete(documentId);
+        }
+    }
+
+    async list(): Promise<DocumentInfo[]> {
+        return Array.from(this.documents.values());
+    }
+}
+
+/**
+ * File-based document manifest
+ * The whole manifest is a single JSON file, rewritten on every change
+ */
+export class FileDocumentManifest implements IDocumentManifest {
+    private writes: Promise<void> = Promise.resolve();
+
+    constructor(private readonly path: string) { }
+
+    async get(documentId: string): Promise<DocumentInfo | undefined> {
+        const documents = await this.read();
+        const stored = documents[documentId];
+        return stored ? deserialize(stored) : undefined;
+    }
+
+    async set(documents: DocumentInfo[]): Promise<void> {
+        await this.update((stored) => {
+            for (const document of documents) {
+                stored[document.id] = serialize(document);
+            }
+        });
+    }
+
+    async delete(documentIds: string[]): Promise<void> {
+        await this.update((stored) => {
+            for (const documentId of documentIds) {
+                delete stored[documentId];
+            }
+        });
+    }
+
+    async list(): Promise<DocumentInfo[]> {
+        return Object.values(await this.read()).map(deserialize);
+    }
+
+    private async read(): Promise<Record<string, StoredDocumentInfo>> {
+        try {
+            return JSON.parse(await readFile(this.path, "utf-8"));
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === "ENOENT") return {};
+            throw error;
+        }
+    }
+
+    /**
+     * Apply a change to the manifest
+     * Changes are serialized so concurrent ingests don't overwrite each other
+     */
+    private async update(change: (stored: Record<string, StoredDocumentInfo>) => void): Promise<void> {
+        const write = this.writes.then(async () => {
+            const stored = await this.read();
+            change(stored);
+
+            // Write to a temporary file first so readers never see a partial manifest
+            await mkdir(dirname(this.path), { recursive: true });
+            const tempPath = `${this.path}.${process.pid}.tmp`;
+            await writeFile(tempPath, JSON.stringify(stored), "utf-8");
+            await rename(tempPath, this.path);
+        });
+        this.writes = write.catch(() => undefined);
+        return write;
+    }
+}
+
+/**
+ * SQLite/libSQL document manifest
+ * Agents can share a table; entries are scoped by agent name
+ */
+export class LibSQLDocumentManifest implements IDocumentManifest {
+    private readonly client: Client;
+    private readonly table: string;
+    private initialized: Promise<void> | undefined;
+
+    constructor(
+        private readonly agentName: string,
+        config: { url: string; authToken?: string | undefined; table?: string | undefined },
+    ) {
+        this.client = createClient({
+            url: config.url,
+            authToken: config.authToken || "",
+        });
+        this.table = config.table || "ragx_documents";
+    }
+
+    /**
+     * Initialize the table if it doesn't exist
+     */
+    async initialize(): Promise<void> {
+        this.initialized ??= this.client.execute(`
+            CREATE TABLE IF NOT EXISTS ${this.table} (
+                agent TEXT NOT NULL,
+                document_id TEXT NOT NULL,
+                source TEXT NOT NULL,
+                checksum TEXT NOT NULL,
+                chunk_count INTEGER NOT NULL,
+                ingested_at TEXT NOT NULL,
+                metadata TEXT NOT NULL,
+                PRIMARY KEY (agent, document_id)
+            )
+        `).then(
+            () => undefined,
+            (error) => {
+                // Allow a later call to retry
+                this.initialized = undefined;
+                throw error;
+            },
+        );
+        return this.initialized;
+    }
+
+    async get(documentId: string): Promise<DocumentInfo | undefined> {
+        await this.initialize();
+        const result = await this.client.execute({
+            sql: `SELECT * FROM ${this.table} WHERE agent = ? AND document_id = ?`,
+            args: [this.agentName, documentId],
+        });
+
+        const row = result.rows[0];
+        return row ? this.toDocumentInfo(row) : undefined;
+    }
+
+    async set(documents: DocumentInfo[]): Promise<void> {
+        if (documents.length === 0) return;
+
+        await this.initialize();
+        await this.client.batch(documents.map((document) => ({
+            sql: `INSERT OR REPLACE INTO ${this.table}
+                (agent, document_id, source, checksum, chunk_count, ingested_at, metadata)
+                VALUES (?, ?, ?, ?, ?, ?, ?)`,
+            args: [
+                this.agentName,
+                document.id,
+                document.source,
+                document.checksum,
+                document.chunkCount,
+                document.ingestedAt.toISOString(),
+                JSON.stringify(document.metadata),
+            ],
+        })), "write");
+    }
+
+    async delete(documentIds: string[]): Promise<void> {
+        if (documentIds.length === 0) return;
+
+        await this.initialize();
+        const placeholders = documentIds.map(() => "?").join(",");
+        await this.client.execute({
+            sql: `DELETE FROM ${this.table} WHERE agent = ? AND document_id IN (${placeholders})`,
+            args: [this.agentName, ...documentIds],
+        });
+    }
+
+    async list(): Promise<DocumentInfo[]> {
+        await this.initialize();
+        const result = await this.client.execute({
+            sql: `SELECT * FROM ${this.table} WHERE agent = ? ORDER BY source`,
+            args: [this.agentName],
+        });
+        return result.rows.map((row) => this.toDocumentInfo(row));
+    }
+
+    private toDocumentInfo(row: Record<string, unknown>): DocumentInfo {
+        return {
+            id: String(row.document_id),
+            source: String(row.source),
+            checksum: String(row.checksum),
+            chunkCount: Number(row.chunk_count),
+            ingestedAt: new Date(String(row.ingested_at)),
+            metadata: JSON.parse(String(row.metadata)),
+        };
+    }
+}
+
+/**
+ * Create a document manifest for an agent from configuration
+ * Without a configured provider the catalog persists like the vector store so it survives restarts
+ * A libSQL manifest shares the libSQL vector store's database unless it sets its own url
+ */
+export function createDocumentManifest(
+    agentName: string,
+    config: DocumentManifestConfig | undefined,
+    vectorStore: VectorStoreConfig,
+): IDocumentManifest {
+    const provider = config?.provider ?? defaultDocumentsProvider(vectorStore);
+    const sharesDatabase = !config?.url && vectorStore.provider === "libsql";
+
+    switch (provider) {
+        case "memory":
+            return new InMemoryDocumentManifest();
+        case "file":
+            return new FileDocumentManifest(config?.path || join(".ragx", "manifests", `${agentName}.json`));
+        case "libsql": {
+            const url = sharesDatabase ? vectorStore.url : config?.url;
+            if (!url) {
+                throw new Error("LibSQL document manifest requires a url");
+            }
+            return new LibSQLDocumentManifest(agentName, {
+                url,
+                authToken: sharesDatabase ? vectorStore.apiKey : config?.authToken,
+                table: config?.table,
+            });
+        }
+        default:
+            throw new Error(`Unknown document manifest provider: ${provider}`);
+    }
+}
@@ -1,4 +1,5 @@
-import type { ChunkingStrategy, Document, DocumentChunk, IDocumentProcessor } from "./interfaces";
+import type { ChunkingStrategy, Document, DocumentChunk, IDocumentProcessor, ITokenizer } from "./interfaces";
+import { BPETokenizer } from "./tokenizer";
 
 /**
  * Chunking options
@@ -10,15 +11,85 @@ export interface ChunkingOptions {
     overlap?: number;
     /** Minimum chunk size in tokens */
     minTokens?: number;
+    /** Maximum parent section size in tokens for hierarchical chunking */
+    parentMaxTokens?: number;
 }
 
 /**
- * Calculate token count (rough approximation)
- * In production, use a proper tokenizer like tiktoken
+ * Result of hierarchical chunking
+ * Only the child chunks are embedded; the parent sections go to the document store
+ */
+export interface HierarchicalChunks {
+    parents: Document[];
+    chunks: DocumentChunk[];
+}
+
+/**
+ * Character range of the document content
+ */
+interface Span {
+    start: number;
+    end: number;
+}
+
+/**
+ * Markdown heading with its character offset in the document
+ */
+interface Heading {
+    offset: number;
+    level: number;
+    title: string;
+}
+
+/**
+ * Sentence, line or block packed into a chunk
+ */
+interface ChunkUnit {
+    content: string;
+    offset: number;
+    tokens: number;
+}
+
+/**
+ * Structural block of a Markdown document
+ */
+interface MarkdownBlock {
+    type: "heading" | "code" | "table" | "list" | "paragraph";
+    content: string;
+    offset: number;
+}
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+const LIST_ITEM_PATTERN = /^\s*(?:[-*+]|\d+[.)])\s+/;
+const TABLE_ROW_PATTERN = /^\s*\|/;
+
+/**
+ * Boundaries tried in order when splitting text to a token budget: paragraphs, lines, sentences, words
+ */
+const SPLIT_PATTERNS = [/\n\s*\n/g, /\n/g, /(?<=[.!?])\s+/g, /\s+/g];
+
+/**
+ * Separator used when recording heading paths in chunk metadata
+ */
+export const HEADING_PATH_SEPARATOR = " > ";
+
+/**
+ * Calculate token count with the default cl100k_base tokenizer
+ * Components that know the model should use its tokenizer instead
  */
 export function countTokens(text: string): number {
-    // Rough approximation: 1 token ≈ 4 characters
-    return Math.ceil(text.length / 4);
+    return new BPETokenizer().countTokens(text);
+}
+
+/**
+ * Derive a stable document ID from its source path or URL
+ * Re-ingesting the same source yields the same ID, so its chunks are updated in place
+ */
+export function createDocumentId(source: string): string {
+    const hasher = new Bun.CryptoHasher("sha256");
+    hasher.update(source);
+    return `doc-${hasher.digest("hex").slice(0, 32)}`;
 }
 
 /**
@@ -29,9 +100,13 @@ export class DocumentProcessor implements IDocumentProcessor {
         maxTokens: 500,
         overlap: 50,
         minTokens: 100,
+        parentMaxTokens: 1500,
     };
 
-    constructor(private readonly options: ChunkingOptions = {}) {
+    constructor(
+        private readonly options: ChunkingOptions = {},
+        private readonly tokenizer: ITokenizer = new BPETokenizer(),
+    ) {
         this.options = { ...this.defaultOptions, ...options };
     }
 
@@ -39,139 +114,193 @@ export class DocumentProcessor implements IDocumentProcessor {
      * Process a document into chunks
      */
     async process(document: Document, strategy: ChunkingStrategy = "fixed"): Promise<DocumentChunk[]> {
+        const headings = this.parseHeadings(document.content);
         switch (strategy) {
             case "fixed":
-                return this.fixedSizeChunking(document);
+                return this.fixedSizeChunking(document, headings);
             case "semantic":
-                return this.semanticChunking(document);
+                return this.semanticChunking(document, headings);
             case "recursive":
-                return this.recursiveChunking(document);
+                return this.recursiveChunking(document, headings);
+            case "markdown":
+                return this.markdownChunking(document, headings);
+            case "hierarchical":
+                return (await this.processHierarchical(document)).chunks;
             default:
                 throw new Error(`Unknown chunking strategy: ${strategy}`);
         }
     }
 
     /**
-     * Calculate token count (rough approximation)
+     * Split a document into parent sections and the child chunks within them
+     * Parents break at headings where possible; each child records its parent in `parentId`
+     */
+    async processHierarchical(document: Document): Promise<HierarchicalChunks> {
+        const { maxTokens, parentMaxTokens } = this.options as Required<ChunkingOptions>;
+        const text = document.content;
+        const headings = this.parseHeadings(text);
+
+        // Sections between headings, split further only when they exceed the parent size
+        const boundaries = [0, ...headings.map((heading) => heading.offset).filter((offset) => offset > 0), text.length];
+        const sections = boundaries.slice(0, -1).flatMap((start, index) =>
+            this.splitToBudget(text, { start, end: boundaries[index + 1] ?? text.length }, parentMaxTokens));
+
+        const parents: Document[] = [];
+        const chunks: DocumentChunk[] = [];
+
+        for (const section of this.packSpans(text, sections, parentMaxTokens)) {
+            const parentId = `${document.id}-parent-${parents.length}`;
+            parents.push({
+                id: parentId,
+                content: text.slice(section.start, section.end),
+                source: document.source,
+                metadata: {
+                    ...document.metadata,
+                    documentId: document.id,
+                    headingPath: this.headingPathAt(headings, section.start).join(HEADING_PATH_SEPARATOR),
+                },
+            });
+
+            for (const span of this.splitToBudget(text, section, maxTokens)) {
+                const chunk = this.createChunk(document, text.slice(span.start, span.end), chunks.length, "hierarchical", headings, span.start);
+                chunk.metadata.isChild = true;
+                chunk.metadata.parentId = parentId;
+                chunks.push(chunk);
+            }
+        }
+
+        return { parents, chunks };
+    }
+
+    /**
+     * Calculate token count
      */
     countTokens(text: string): number {
-        return countTokens(text);
+        return this.tokenizer.countTokens(text);
     }
 
     /**
      * Fixed-size chunking with overlap
+     * Chunks are packed word by word to maxTokens; words too long for a chunk on their own are cut to fit
      */
-    private fixedSizeChunking(document: Document): DocumentChunk[] {
-        const { maxTokens, overlap } = this.options as Required<ChunkingOptions>;
+    private fixedSizeChunking(document: Document, headings: Heading[]): DocumentChunk[] {
+        const { maxTokens, overlap, minTokens } = this.options as Required<ChunkingOptions>;
+        const text = document.content;
         const chunks: DocumentChunk[] = [];
-        const words = document.content.split(/\s+/);
+
+        const words = Array.from(text.matchAll(/\S+/g)).flatMap((match) =>
+            this.splitWord(text, { start: match.index, end: match.index + match[0].length }, maxTokens));
+        const wordTokens = words.map((word) => this.countTokens(` ${text.slice(word.start, word.end)}`));
 
         let position = 0;
         let startIdx = 0;
 
         while (startIdx < words.length) {
-            // Calculate end index based on max tokens (rough approximation: 1 token ≈ 0.75 words)
-            const tokensToWords = Math.floor(maxTokens * 0.75);
-            let endIdx = Math.min(startIdx + tokensToWords, words.length);
-
-            const chunkWords = words.slice(startIdx, endIdx);
-            const content = chunkWords.join(" ");
-            const tokenCount = this.countTokens(content);
+            const start = words[startIdx]?.start ?? 0;
+
+            // Grow by the words' own counts, then trim until the chunk's real count fits
+            let endIdx = startIdx + 1;
+            let estimate = wordTokens[startIdx] ?? 0;
+            while (endIdx < words.length && estimate + (wordTokens[endIdx] ?? 0) <= maxTokens) {
+                estimate += wordTokens[endIdx] ?? 0;
+                endIdx++;
+            }
+            let content = text.slice(start, words[endIdx - 1]?.end ?? start);
+            while (endIdx - startIdx > 1 && this.countTokens(content) > maxTokens) {
+                endIdx--;
+                content = text.slice(start, words[endIdx - 1]?.end ?? start);
+            }
 
             // Only create chunk if it meets minimum size
-            if (tokenCount >= (this.options.minTokens || 100)) {
-                chunks.push({
-                    id: `${document.id}-chunk-${position}`,
-                    content,
-                    documentId: document.id,
-                    position,
-                    tokenCount,
-                    checksum: this.generateChecksum(content),
-                    createdAt: new Date(),
-                    metadata: {
-                        ...document.metadata,
-                        source: document.source,
-                        chunkStrategy: "fixed",
-                    },
-                });
+            if (this.countTokens(content) >= minTokens) {
+                chunks.push(this.createChunk(document, content, position, "fixed", headings, start));
                 position++;
             }
 
-            // Move start index forward with overlap
-            const overlapWords = Math.floor(overlap * 0.75);
-            startIdx = endIdx - overlapWords;
+            if (endIdx >= words.length) break;
 
-            // Prevent infinite loop
-            if (startIdx >= words.length || endIdx === words.length) {
-                break;
+            // Start the next chunk with the trailing words that fit in the overlap
+            let nextIdx = endIdx;
+            let overlapTokens = 0;
+            while (nextIdx - 1 > startIdx && overlapTokens + (wordTokens[nextIdx - 1] ?? 0) <= overlap) {
+                nextIdx--;
+                overlapTokens += wordTokens[nextIdx] ?? 0;
             }
+            startIdx = nextIdx;
         }
 
         return chunks;
     }
 
+    /**
+     * Cut a word into spans of at most maxTokens, such as long runs of CJK text or minified code
+     */
+    private splitWord(text: string, span: Span, maxTokens: number): Span[] {
+        const spans: Span[] = [];
+        let start = span.start;
+
+        while (start < span.end) {
+            if (this.countTokens(text.slice(start, span.end)) <= maxTokens) {
+                spans.push({ start, end: span.end });
+                break;
+            }
+
+            // Longest prefix that fits, never splitting a surrogate pair
+            let low = start + 1;
+            let high = span.end;
+            while (low < high) {
+                const mid = Math.ceil((low + high) / 2);
+                if (this.countTokens(text.slice(start, mid)) <= maxTokens) {
+                    low = mid;
+                } else {
+                    high = mid - 1;
+                }
+            }
+            let end = low;
+            if (end < span.end && /[\uD800-\uDBFF]/.test(text[end - 1] ?? "")) {
+                end = end - 1 > start ? end - 1 : end + 1;
+            }
+
+            spans.push({ start, end });
+            start = end;
+        }
+
+        return spans;
+    }
+
     /**
      * Semantic chunking (sentence-based)
      */
-    private semanticChunking(document: Document): DocumentChunk[] {
-        const { maxTokens } = this.options as Required<ChunkingOptions>;
+    private semanticChunking(document: Document, headings: Heading[]): DocumentChunk[] {
+        const { maxTokens, overlap } = this.options as Required<ChunkingOptions>;
         const chunks: DocumentChunk[] = [];
 
         // Split by sentences (simple regex)
         const sentences = document.content.split(/[.!?]+\s+/).filter((s) => s.trim().length > 0);
 
-        let currentChunk: string[] = [];
-        let currentTokens = 0;
-        let position = 0;
+        let current: ChunkUnit[] = [];
+        let cursor = 0;
+
+        const flush = () => {
+            const content = `${current.map((unit) => unit.content).join(". ")}.`;
+            chunks.push(this.createChunk(document, content, chunks.length, "semantic", headings, current[0]?.offset ?? 0));
+        };
 
         for (const sentence of sentences) {
-            const sentenceTokens = this.countTokens(sentence);
-
-            if (currentTokens + sentenceTokens > maxTokens && currentChunk.length > 0) {
-                // Create chunk
-                const content = currentChunk.join(". ") + ".";
-                chunks.push({
-                    id: `${document.id}-chunk-${position}`,
-                    content,
-                    documentId: document.id,
-                    position,
-                    tokenCount: this.countTokens(content),
-                    checksum: this.generateChecksum(content),
-                    createdAt: new Date(),
-                    metadata: {
-                        ...document.metadata,
-                        source: document.source,
-                        chunkStrategy: "semantic",
-                    },
-                });
+            const tokens = this.countTokens(sentence);
+            const offset = Math.max(document.content.indexOf(sentence, cursor), cursor);
+            cursor = offset + sentence.length;
 
-                position++;
-                currentChunk = [];
-                currentTokens = 0;
+            if (this.unitTokens(current) + tokens > maxTokens && current.length > 0) {
+                flush();
+                current = this.overlapUnits(current, Math.min(overlap, maxTokens - tokens));
             }
 
-            currentChunk.push(sentence);
-            currentTokens += sentenceTokens;
+            current.push({ content: sentence, offset, tokens });
         }
 
         // Add remaining chunk
-        if (currentChunk.length > 0) {
-            const content = currentChunk.join(". ") + ".";
-            chunks.push({
-                id: `${document.id}-chunk-${position}`,
-                content,
-                documentId: document.id,
-                position,
-                tokenCount: this.countTokens(content),
-                checksum: this.generateChecksum(content),
-                createdAt: new Date(),
-                metadata: {
-                    ...document.metadata,
-                    source: document.source,
-                    chunkStrategy: "semantic",
-                },
-            });
-        }
+        if (current.length > 0) flush();
 
         return chunks;
     }
@@ -179,94 +308,372 @@ export class DocumentProcessor implements IDocumentProcessor {
     /**
      * Recursive chunking (for code and structured text)
      */
-    private recursiveChunking(document: Document): DocumentChunk[] {
-        const { maxTokens } = this.options as Required<ChunkingOptions>;
+    private recursiveChunking(document: Document, headings: Heading[]): DocumentChunk[] {
+        const { maxTokens, overlap } = this.options as Required<ChunkingOptions>;
         const chunks: DocumentChunk[] = [];
 
         // Split by paragraphs first
         const paragraphs = document.content.split(/\n\n+/).filter((p) => p.trim().length > 0);
 
-        let position = 0;
+        let cursor = 0;
 
         for (const paragraph of paragraphs) {
             const tokens = this.countTokens(paragraph);
+            const paragraphOffset = Math.max(document.content.indexOf(paragraph, cursor), cursor);
+            cursor = paragraphOffset + paragraph.length;
 
             if (tokens <= maxTokens) {
                 // Paragraph fits in one chunk
-                chunks.push({
-                    id: `${document.id}-chunk-${position}`,
-                    content: paragraph,
-                    documentId: document.id,
-                    position,
-                    tokenCount: tokens,
-                    checksum: this.generateChecksum(paragraph),
-                    createdAt: new Date(),
-                    metadata: {
-                        ...document.metadata,
-                        source: document.source,
-                        chunkStrategy: "recursive",
-                    },
-                });
-                position++;
-            } else {
-                // Split paragraph by lines
-                const lines = paragraph.split(/\n/).filter((l) => l.trim().length > 0);
-                let currentChunk: string[] = [];
-                let currentTokens = 0;
-
-                for (const line of lines) {
-                    const lineTokens = this.countTokens(line);
-
-                    if (currentTokens + lineTokens > maxTokens && currentChunk.length > 0) {
-                        const content = currentChunk.join("\n");
-                        chunks.push({
-                            id: `${document.id}-chunk-${position}`,
-                            content,
-                            documentId: document.id,
-                            position,
-                            tokenCount: this.countTokens(content),
-                            checksum: this.generateChecksum(content),
-                            createdAt: new Date(),
-                            metadata: {
-                                ...document.metadata,
-                                source: document.source,
-                                chunkStrategy: "recursive",
-                            },
-                        });
-                        position++;
-                        currentChunk = [];
-                        currentTokens = 0;
-                    }
-
-                    currentChunk.push(line);
-                    currentTokens += lineTokens;
+                chunks.push(this.createChunk(document, paragraph, chunks.length, "recursive", headings, paragraphOffset));
+                continue;
+            }
+
+            // Split paragraph by lines
+            const lines = paragraph.split(/\n/).filter((l) => l.trim().length > 0);
+            let current: ChunkUnit[] = [];
+            let lineCursor = paragraphOffset;
+
+            const flush = () => {
+                const content = current.map((unit) => unit.content).join("\n");
+                chunks.push(this.createChunk(document, content, chunks.length, "recursive", headings, current[0]?.offset ?? 0));
+            };
+
+            for (const line of lines) {
+                const lineTokens = this.countTokens(line);
+                const lineOffset = Math.max(document.content.indexOf(line, lineCursor), lineCursor);
+                lineCursor = lineOffset + line.length;
+
+                if (this.unitTokens(current) + lineTokens > maxTokens && current.length > 0) {
+                    flush();
+                    current = this.overlapUnits(current, Math.min(overlap, maxTokens - lineTokens));
                 }
 
-                // Add remaining chunk
-                if (currentChunk.length > 0) {
-                    const content = currentChunk.join("\n");
-                    chunks.push({
-                        id: `${document.id}-chunk-${position}`,
-                        content,
-                        documentId: document.id,
-                        position,
-                        tokenCount: this.countTokens(content),
-                        checksum: this.generateChecksum(content),
-                        createdAt: new Date(),
-                        metadata: {
-                            ...document.metadata,
-                            source: document.source,
-                            chunkStrategy: "recursive",
-                        },
-                    });
-                    position++;
+                current.push({ content: line, offset: lineOffset, tokens: lineTokens });
+            }
+
+            // Add remaining chunk
+            if (current.length > 0) flush();
+        }
+
+        return chunks;
+    }
+
+    /**
+     * Markdown-aware chunking
+     * Chunks never cross a heading, and code blocks, tables and lists are only split when they exceed maxTokens
+     * Overlap repeats whole trailing blocks within a section
+     */
+    private markdownChunking(document: Document, headings: Heading[]): DocumentChunk[] {
+        const { maxTokens, overlap } = this.options as Required<ChunkingOptions>;
+        const chunks: DocumentChunk[] = [];
+
+        let current: ChunkUnit[] = [];
+
+        const flush = () => {
+            if (current.length === 0) return;
+            const content = current.map((unit) => unit.content).join("\n\n");
+            chunks.push(this.createChunk(document, content, chunks.length, "markdown", headings, current[0]?.offset ?? 0));
+            current = [];
+        };
+
+        for (const block of this.parseMarkdownBlocks(document.content)) {
+            // A heading starts a new section and is kept with the content below it
+            if (block.type === "heading") flush();
+
+            const pieces = this.countTokens(block.content) > maxTokens
+                ? this.splitBlock(block, maxTokens)
+                : [block.content];
+
+            for (const piece of pieces) {
+                const tokens = this.countTokens(piece);
+                if (this.unitTokens(current) + tokens > maxTokens && current.length > 0) {
+                    const carried = this.overlapUnits(current, Math.min(overlap, maxTokens - tokens));
+                    flush();
+                    current = carried;
                 }
+
+                current.push({ content: piece, offset: block.offset, tokens });
             }
         }
 
+        flush();
         return chunks;
     }
 
+    /**
+     * Trailing units of a full chunk to repeat at the start of the next one
+     * Only whole units within the budget are taken, and never the entire chunk
+     */
+    private overlapUnits(units: ChunkUnit[], budget: number): ChunkUnit[] {
+        let start = units.length;
+        let tokens = 0;
+        while (start > 1 && tokens + (units[start - 1]?.tokens ?? 0) <= budget) {
+            start--;
+            tokens += units[start]?.tokens ?? 0;
+        }
+        return units.slice(start);
+    }
+
+    private unitTokens(units: ChunkUnit[]): number {
+        return units.reduce((sum, unit) => sum + unit.tokens, 0);
+    }
+
+    /**
+     * Split Markdown into headings, fenced code, tables, lists and paragraphs
+     */
+    private parseMarkdownBlocks(text: string): MarkdownBlock[] {
+        const blocks: MarkdownBlock[] = [];
+        const lines = text.split("\n");
+
+        let offset = 0;
+        let current: { type: MarkdownBlock["type"]; lines: string[]; offset: number } | undefined;
+        let fence: string | undefined;
+
+        const close = () => {
+            if (current) {
+                blocks.push({ type: current.type, content: current.lines.join("\n"), offset: current.offset });
+            }
+            current = undefined;
+        };
+
+        for (const line of lines) {
+            const lineOffset = offset;
+            offset += line.length + 1;
+
+            // Inside a fenced code block everything is kept verbatim until the closing fence
+            if (fence) {
+                current?.lines.push(line);
+                if (line.trim().startsWith(fence)) {
+                    fence = undefined;
+                    close();
+                }
+                continue;
+            }
+
+            const fenceMatch = line.match(FENCE_PATTERN);
+            if (fenceMatch) {
+                close();
+                fence = fenceMatch[1];
+                current = { type: "code", lines: [line], offset: lineOffset };
+                continue;
+            }
+
+            if (line.trim().length === 0) {
+                // Blank lines between list items do not end the list
+                if (current?.type !== "list") close();
+                continue;
+            }
+
+            if (HEADING_PATTERN.test(line)) {
+                close();
+                blocks.push({ type: "heading", content: line, offset: lineOffset });
+                continue;
+            }
+
+            const type: MarkdownBlock["type"] = TABLE_ROW_PATTERN.test(line)
+                ? "table"
+                : LIST_ITEM_PATTERN.test(line)
+                    ? "list"
+                    : "paragraph";
+
+            // Indented lines continue the current list item
+            const continuesList = current?.type === "list" && (type === "list" || /^\s+/.test(line));
+            if (current && (current.type === type || continuesList)) {
+                current.lines.push(line);
+                continue;
+            }
+
+            close();
+            current = { type, lines: [line], offset: lineOffset };
+        }
+
+        close();
+        return blocks;
+    }
+
+    /**
+     * Split an oversized block along its own structure
+     * Code pieces are re-fenced, table pieces repeat the header row, lists split between items
+     */
+    private splitBlock(block: MarkdownBlock, maxTokens: number): string[] {
+        const lines = block.content.split("\n");
+        let prefix: string[] = [];
+        let suffix: string[] = [];
+        let units: string[] = lines;
+
+        if (block.type === "code") {
+            const closing = lines.length > 1 && FENCE_PATTERN.test(lines[lines.length - 1] ?? "");
+            prefix = lines.slice(0, 1);
+            suffix = closing ? lines.slice(-1) : [];
+            units = lines.slice(1, closing ? -1 : undefined);
+        } else if (block.type === "table") {
+            const hasSeparator = /^\s*\|?\s*:?-{3,}/.test(lines[1] ?? "");
+            prefix = lines.slice(0, hasSeparator ? 2 : 1);
+            units = lines.slice(prefix.length);
+        } else if (block.type === "list") {
+            // Group each top-level item with its continuation lines
+            const indent = (line: string) => line.length - line.trimStart().length;
+            const baseIndent = indent(lines[0] ?? "");
+            units = [];
+            for (const line of lines) {
+                if (LIST_ITEM_PATTERN.test(line) && indent(line) <= baseIndent) {
+                    units.push(line);
+                } else if (units.length > 0) {
+                    units[units.length - 1] += `\n${line}`;
+                } else {
+                    units.push(line);
+                }
+            }
+        }
+
+        const frameTokens = this.countTokens([...prefix, ...suffix].join("\n"));
+        const pieces: string[] = [];
+        let current: string[] = [];
+        let currentTokens = frameTokens;
+
+        for (const unit of units) {
+            const unitTokens = this.countTokens(unit);
+            if (currentTokens + unitTokens > maxTokens && current.length > 0) {
+                pieces.push([...prefix, ...current, ...suffix].join("\n"));
+                current = [];
+                currentTokens = frameTokens;
+            }
+            current.push(unit);
+            currentTokens += unitTokens;
+        }
+
+        if (current.length > 0) {
+            pieces.push([...prefix, ...current, ...suffix].join("\n"));
+        }
+
+        return pieces;
+    }
+
+    /**
+     * Split a span of text into spans of at most maxTokens
+     * Breaks at the coarsest boundary that fits, so a paragraph is only split when it is too large on its own
+     */
+    private splitToBudget(text: string, span: Span, maxTokens: number, level = 0): Span[] {
+        const trimmed = this.trimSpan(text, span);
+        if (!trimmed) return [];
+
+        const pattern = SPLIT_PATTERNS[level];
+        if (!pattern || this.countTokens(text.slice(trimmed.start, trimmed.end)) <= maxTokens) {
+            return [trimmed];
+        }
+
+        const pieces: Span[] = [];
+        let cursor = trimmed.start;
+        for (const match of text.slice(trimmed.start, trimmed.end).matchAll(pattern)) {
+            const offset = trimmed.start + match.index;
+            pieces.push({ start: cursor, end: offset });
+            cursor = offset + match[0].length;
+        }
+        pieces.push({ start: cursor, end: trimmed.end });
+
+        const units = pieces.flatMap((piece) => this.splitToBudget(text, piece, maxTokens, level + 1));
+        return this.packSpans(text, units, maxTokens);
+    }
+
+    /**
+     * Merge consecutive spans while the combined text fits in maxTokens
+     */
+    private packSpans(text: string, spans: Span[], maxTokens: number): Span[] {
+        const packed: Span[] = [];
+        let current: Span | undefined;
+
+        for (const span of spans) {
+            if (current && this.countTokens(text.slice(current.start, span.end)) <= maxTokens) {
+                current.end = span.end;
+            } else {
+                if (current) packed.push(current);
+                current = { ...span };
+            }
+        }
+
+        if (current) packed.push(current);
+        return packed;
+    }
+
+    /**
+     * Shrink a span to exclude surrounding whitespace; undefined when nothing is left
+     */
+    private trimSpan(text: string, span: Span): Span | undefined {
+        let { start, end } = span;
+        while (start < end && /\s/.test(text[start] ?? "")) start++;
+        while (end > start && /\s/.test(text[end - 1] ?? "")) end--;
+        return start < end ? { start, end } : undefined;
+    }
+
+    /**
+     * Collect ATX headings outside fenced code blocks
+     */
+    private parseHeadings(text: string): Heading[] {
+        const headings: Heading[] = [];
+        let offset = 0;
+        let fence: string | undefined;
+
+        for (const line of text.split("\n")) {
+            const fenceMatch = line.match(FENCE_PATTERN);
+            if (fence) {
+                if (line.trim().startsWith(fence)) fence = undefined;
+            } else if (fenceMatch) {
+                fence = fenceMatch[1];
+            } else {
+                const match = line.match(HEADING_PATTERN);
+                if (match?.[1] && match[2]) {
+                    headings.push({ offset, level: match[1].length, title: match[2] });
+                }
+            }
+            offset += line.length + 1;
+        }
+
+        return headings;
+    }
+
+    /**
+     * Resolve the heading path that contains the given character offset
+     */
+    private headingPathAt(headings: Heading[], offset: number): string[] {
+        const path: Heading[] = [];
+        for (const heading of headings) {
+            if (heading.offset > offset) break;
+            while (path.length > 0 && (path[path.length - 1]?.level ?? 0) >= heading.level) {
+                path.pop();
+            }
+            path.push(heading);
+        }
+        return path.map((heading) => heading.title);
+    }
+
+    /**
+     * Build a chunk with standard metadata
+     */
+    private createChunk(
+        document: Document,
+        content: string,
+        position: number,
+        strategy: ChunkingStrategy,
+        headings: Heading[],
+        offset: number,
+    ): DocumentChunk {
+        return {
+            id: `${document.id}-chunk-${position}`,
+            content,
+            documentId: document.id,
+            position,
+            tokenCount: this.countTokens(content),
+            checksum: this.generateChecksum(content),
+            createdAt: new Date(),
+            metadata: {
+                ...document.metadata,
+                source: document.source,
+                chunkStrategy: strategy,
+                headingPath: this.headingPathAt(headings, offset).join(HEADING_PATH_SEPARATOR),
+            },
+        };
+    }
+
     /**
      * Generate checksum for content using Bun's built-in hash
      */
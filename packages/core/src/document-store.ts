@@ -1,3 +1,7 @@
+import { mkdir, readdir, readFile, rename, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { createClient, type Client } from "@libsql/client";
+import type { DocumentStoreConfig, VectorStoreConfig } from "@ragx/config";
 import type { Document, IDocumentStore } from "./interfaces";
 
 /**
@@ -26,3 +30,209 @@ export class MemoryDocumentStore implements IDocumentStore {
         return Array.from(this.documents.values());
     }
 }
+
+/**
+ * File-based document store
+ * Each document is a JSON file in the configured directory
+ */
+export class FileDocumentStore implements IDocumentStore {
+    constructor(private readonly directory: string) { }
+
+    async add(documents: Document[]): Promise<void> {
+        if (documents.length === 0) return;
+        await mkdir(this.directory, { recursive: true });
+
+        for (const doc of documents) {
+            // Write to a temporary file first so readers never see a partial document
+            const path = this.pathFor(doc.id);
+            const tempPath = `${path}.${process.pid}.tmp`;
+            await writeFile(tempPath, JSON.stringify(doc), "utf-8");
+            await rename(tempPath, path);
+        }
+    }
+
+    async get(id: string): Promise<Document | undefined> {
+        try {
+            return JSON.parse(await readFile(this.pathFor(id), "utf-8"));
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+            throw error;
+        }
+    }
+
+    async delete(ids: string[]): Promise<void> {
+        for (const id of ids) {
+            await rm(this.pathFor(id), { force: true });
+        }
+    }
+
+    async getAll(): Promise<Document[]> {
+        let files: string[];
+        try {
+            files = await readdir(this.directory);
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+            throw error;
+        }
+
+        const documents: Document[] = [];
+        for (const file of files.filter((name) => name.endsWith(".json"))) {
+            const doc = await this.get(decodeURIComponent(file.slice(0, -".json".length))).catch(() => undefined);
+            if (doc) documents.push(doc);
+        }
+        return documents;
+    }
+
+    private pathFor(id: string): string {
+        return join(this.directory, `${encodeURIComponent(id)}.json`);
+    }
+}
+
+/**
+ * SQLite/libSQL document store
+ * Agents can share a table; documents are scoped by agent name
+ */
+export class LibSQLDocumentStore implements IDocumentStore {
+    private readonly client: Client;
+    private readonly table: string;
+    private initialized: Promise<void> | undefined;
+
+    constructor(
+        private readonly agentName: string,
+        config: { url: string; authToken?: string | undefined; table?: string | undefined },
+    ) {
+        this.client = createClient({
+            url: config.url,
+            authToken: config.authToken || "",
+        });
+        this.table = config.table || "ragx_parent_documents";
+    }
+
+    /**
+     * Initialize the table if it doesn't exist
+     */
+    async initialize(): Promise<void> {
+        this.initialized ??= this.client.execute(`
+            CREATE TABLE IF NOT EXISTS ${this.table} (
+                agent TEXT NOT NULL,
+                document_id TEXT NOT NULL,
+                content TEXT NOT NULL,
+                source TEXT NOT NULL,
+                metadata TEXT,
+                PRIMARY KEY (agent, document_id)
+            )
+        `).then(
+            () => undefined,
+            (error) => {
+                // Allow a later call to retry
+                this.initialized = undefined;
+                throw error;
+            },
+        );
+        return this.initialized;
+    }
+
+    async add(documents: Document[]): Promise<void> {
+        if (documents.length === 0) return;
+
+        await this.initialize();
+        await this.client.batch(documents.map((doc) => ({
+            sql: `INSERT OR REPLACE INTO ${this.table} (agent, document_id, content, source, metadata) VALUES (?, ?, ?, ?, ?)`,
+            args: [
+                this.agentName,
+                doc.id,
+                doc.content,
+                doc.source,
+                doc.metadata ? JSON.stringify(doc.metadata) : null,
+            ],
+        })), "write");
+    }
+
+    async get(id: string): Promise<Document | undefined> {
+        await this.initialize();
+        const result = await this.client.execute({
+            sql: `SELECT * FROM ${this.table} WHERE agent = ? AND document_id = ?`,
+            args: [this.agentName, id],
+        });
+
+        const row = result.rows[0];
+        return row ? this.toDocument(row) : undefined;
+    }
+
+    async delete(ids: string[]): Promise<void> {
+        if (ids.length === 0) return;
+
+        await this.initialize();
+        const placeholders = ids.map(() => "?").join(",");
+        await this.client.execute({
+            sql: `DELETE FROM ${this.table} WHERE agent = ? AND document_id IN (${placeholders})`,
+            args: [this.agentName, ...ids],
+        });
+    }
+
+    async getAll(): Promise<Document[]> {
+        await this.initialize();
+        const result = await this.client.execute({
+            sql: `SELECT * FROM ${this.table} WHERE agent = ?`,
+            args: [this.agentName],
+        });
+        return result.rows.map((row) => this.toDocument(row));
+    }
+
+    private toDocument(row: Record<string, unknown>): Document {
+        return {
+            id: String(row.document_id),
+            content: String(row.content),
+            source: String(row.source),
+            ...(row.metadata !== null ? { metadata: JSON.parse(String(row.metadata)) } : {}),
+        };
+    }
+}
+
+/**
+ * Backend for the document manifest and store that persists like the vector store
+ */
+export function defaultDocumentsProvider(vectorStore: VectorStoreConfig): "memory" | "file" | "libsql" {
+    switch (vectorStore.provider) {
+        case "memory":
+            return "memory";
+        case "libsql":
+            return "libsql";
+        default:
+            return "file";
+    }
+}
+
+/**
+ * Create a parent document store for an agent from configuration
+ * Without a configured provider the parents persist like the vector store so they survive restarts
+ * A libSQL document store shares the libSQL vector store's database unless it sets its own url
+ */
+export function createDocumentStore(
+    agentName: string,
+    config: DocumentStoreConfig | undefined,
+    vectorStore: VectorStoreConfig,
+): IDocumentStore {
+    const provider = config?.provider ?? defaultDocumentsProvider(vectorStore);
+    const sharesDatabase = !config?.url && vectorStore.provider === "libsql";
+
+    switch (provider) {
+        case "memory":
+            return new MemoryDocumentStore();
+        case "file":
+            return new FileDocumentStore(config?.path || join(".ragx", "documents", agentName));
+        case "libsql": {
+            const url = sharesDatabase ? vectorStore.url : config?.url;
+            if (!url) {
+                throw new Error("LibSQL document store requires a url");
+            }
+            return new LibSQLDocumentStore(agentName, {
+                url,
+                authToken: sharesDatabase ? vectorStore.apiKey : config?.authToken,
+                table: config?.table,
+            });
+        }
+        default:
+            throw new Error(`Unknown document store provider: ${config?.provider}`);
+    }
+}
@@ -0,0 +1,120 @@
+import type { DocumentChunk } from "./interfaces";
+
+/**
+ * Search result with its score
+ */
+export interface ScoredChunk {
+    chunk: DocumentChunk;
+    score: number;
+}
+
+/**
+ * Hybrid fusion algorithms
+ * - rrf: weighted reciprocal rank fusion
+ * - minmax: linear combination of min-max normalized scores
+ * - zscore: linear combination of z-score normalized scores
+ */
+export type FusionMethod = "rrf" | "minmax" | "zscore";
+
+export interface FusionOptions {
+    /** Fusion algorithm (default rrf) */
+    method?: FusionMethod | undefined;
+    /** Weight of the vector results; keyword results get 1 - alpha (default 0.5) */
+    alpha?: number | undefined;
+    /** RRF rank constant (default 60) */
+    k?: number | undefined;
+}
+
+/**
+ * Normalize scores of a ranked list to 0..1
+ */
+function normalize(results: ScoredChunk[], method: FusionMethod, k: number): Map<string, number> {
+    const scores = new Map<string, number>();
+    if (results.length === 0) return scores;
+
+    if (method === "rrf") {
+        // Scaled so the top rank scores 1
+        results.forEach((result, index) => scores.set(result.chunk.id, (k + 1) / (k + index + 1)));
+        return scores;
+    }
+
+    const values = results.map((result) => result.score);
+    if (method === "minmax") {
+        const min = Math.min(...values);
+        const range = Math.max(...values) - min;
+        results.forEach((result) => scores.set(result.chunk.id, range > 0 ? (result.score - min) / range : 1));
+        return scores;
+    }
+
+    // z-scores mapped to 0..1 with the logistic function
+    const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+    const std = Math.sqrt(values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length);
+    results.forEach((result) => {
+        const z = std > 0 ? (result.score - mean) / std : 0;
+        scores.set(result.chunk.id, 1 / (1 + Math.exp(-z)));
+    });
+    return scores;
+}
+
+/**
+ * Sum the weighted normalized scores of each result across the lists
+ * Lists without results or weight are left out and the remaining weights renormalized
+ */
+function fuse<T extends ScoredChunk>(
+    lists: Array<{ results: T[]; weight: number }>,
+    method: FusionMethod,
+    k: number,
+): T[] {
+    const active = lists.filter((list) => list.results.length > 0 && list.weight > 0);
+    const totalWeight = active.reduce((sum, list) => sum + list.weight, 0);
+
+    const fused = new Map<string, T>();
+    for (const { results, weight } of active) {
+        const scores = normalize(results, method, k);
+        for (const result of results) {
+            const score = (scores.get(result.chunk.id) ?? 0) * weight / totalWeight;
+            const existing = fused.get(result.chunk.id);
+            if (existing) {
+                existing.score += score;
+            } else {
+                fused.set(result.chunk.id, { ...result, score });
+            }
+        }
+    }
+
+    return Array.from(fused.values()).sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Fuse vector and keyword results into one ranking with scores in 0..1
+ * A list without results leaves the full weight to the other, so stores without keyword search still score normally
+ */
+export function fuseResults<T extends ScoredChunk>(
+    vectorResults: T[],
+    keywordResults: T[],
+    options: FusionOptions = {},
+): T[] {
+    const alpha = Math.min(Math.max(options.alpha ?? 0.5, 0), 1);
+    return fuse(
+        [
+            { results: vectorResults, weight: alpha },
+            { results: keywordResults, weight: 1 - alpha },
+        ],
+        options.method ?? "rrf",
+        options.k ?? 60,
+    );
+}
+
+/**
+ * Fuse equally weighted rankings, such as the results of several sub-queries, with scores in 0..1
+ */
+export function fuseRankings<T extends ScoredChunk>(
+    rankings: T[][],
+    options: Omit<FusionOptions, "alpha"> = {},
+): T[] {
+    return fuse(
+        rankings.map((results) => ({ results, weight: 1 })),
+        options.method ?? "rrf",
+        options.k ?? 60,
+    );
+}
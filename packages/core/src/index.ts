@@ -6,11 +6,48 @@ export * from "./interfaces";
 // Document processor
 export * from "./document-processor";
 
+// Tokenizers
+export * from "./tokenizer";
+
+// Metadata filters
+export * from "./metadata-filter";
+
+// Keyword search
+export * from "./bm25";
+
+// Hybrid fusion
+export * from "./fusion";
+
 // Retriever
 export * from "./retriever";
 
+// Rerankers
+export * from "./mmr";
+export * from "./reranker";
+
 // Context builder
 export * from "./context-builder";
 
+// LLM streaming
+export * from "./llm-stream";
+
+// Memory stores
+export * from "./memory-store";
+
+// Document manifests
+export * from "./document-manifest";
+
+// Parent document stores
+export * from "./document-store";
+
+// Background ingestion
+export * from "./ingestion-queue";
+
+// Query pipeline
+export * from "./pipeline";
+
 // RAG engine
 export * from "./rag-engine";
+
+// Multi-agent routing
+export * from "./agent-router";
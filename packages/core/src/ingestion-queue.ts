@@ -0,0 +1,231 @@
+import { randomUUID } from "node:crypto";
+import type {
+    Document,
+    DocumentIngestProgress,
+    IngestOptions,
+    IngestResult,
+    IRAGEngine,
+} from "./interfaces";
+import { Logger } from "./logger";
+
+/**
+ * Ingestion job status
+ * "partial" means some documents failed; they can be retried
+ */
+export type IngestionJobStatus = "queued" | "running" | "completed" | "partial" | "failed";
+
+/**
+ * Background ingestion job
+ */
+export interface IngestionJob {
+    id: string;
+    agentName: string;
+    status: IngestionJobStatus;
+    createdAt: Date;
+    startedAt?: Date | undefined;
+    finishedAt?: Date | undefined;
+    /** Documents in the job */
+    total: number;
+    /** Documents ingested successfully */
+    completed: number;
+    /** Documents that failed after their retries */
+    failed: number;
+    /** Per-document progress, in submission order */
+    documents: DocumentIngestProgress[];
+    /** Result of the last run */
+    result?: IngestResult | undefined;
+    /** Error that stopped the job as a whole */
+    error?: string | undefined;
+}
+
+export interface IngestionQueueOptions {
+    /** Jobs run at the same time (default 1) */
+    concurrency?: number;
+    /** Finished jobs kept for status queries (default 100) */
+    maxFinishedJobs?: number;
+}
+
+/**
+ * Options applied to a job's ingestion
+ */
+export type IngestionJobOptions = Omit<IngestOptions, "onProgress">;
+
+/**
+ * Internal job state
+ */
+interface JobEntry {
+    job: IngestionJob;
+    engine: IRAGEngine;
+    options: IngestionJobOptions;
+    /** Documents still to ingest; cleared as they complete */
+    pending: Map<string, Document>;
+    done: Promise<IngestionJob>;
+    resolve: (job: IngestionJob) => void;
+}
+
+/**
+ * In-process queue that ingests documents in the background
+ * Jobs run in submission order with bounded concurrency
+ */
+export class IngestionQueue {
+    private readonly jobs = new Map<string, JobEntry>();
+    private readonly waiting: JobEntry[] = [];
+    private readonly concurrency: number;
+    private readonly maxFinishedJobs: number;
+    private running = 0;
+
+    constructor(options?: IngestionQueueOptions) {
+        this.concurrency = Math.max(options?.concurrency ?? 1, 1);
+        this.maxFinishedJobs = options?.maxFinishedJobs ?? 100;
+    }
+
+    /**
+     * Queue documents for ingestion and return the job immediately
+     */
+    enqueue(agentName: string, engine: IRAGEngine, documents: Document[], options: IngestionJobOptions = {}): IngestionJob {
+        const job: IngestionJob = {
+            id: randomUUID(),
+            agentName,
+            status: "queued",
+            createdAt: new Date(),
+            total: documents.length,
+            completed: 0,
+            failed: 0,
+            documents: documents.map((document) => ({
+                documentId: document.id,
+                source: document.source,
+                status: "pending",
+                attempts: 0,
+            })),
+        };
+
+        const entry = this.createEntry(job, engine, options, documents);
+        this.jobs.set(job.id, entry);
+        this.schedule(entry);
+        return this.snapshot(job);
+    }
+
+    /**
+     * Get a snapshot of a job
+     */
+    get(jobId: string): IngestionJob | undefined {
+        const entry = this.jobs.get(jobId);
+        return entry ? this.snapshot(entry.job) : undefined;
+    }
+
+    /**
+     * Wait for a job to finish
+     */
+    async wait(jobId: string): Promise<IngestionJob | undefined> {
+        const entry = this.jobs.get(jobId);
+        return entry ? this.snapshot(await entry.done) : undefined;
+    }
+
+    /**
+     * Queue the failed documents of a finished job again
+     * Returns undefined when the job is unknown, still active or has nothing to retry
+     */
+    retry(jobId: string): IngestionJob | undefined {
+        const entry = this.jobs.get(jobId);
+        if (!entry || (entry.job.status !== "partial" && entry.job.status !== "failed") || entry.pending.size === 0) {
+            return undefined;
+        }
+
+        const { job } = entry;
+        job.status = "queued";
+        job.finishedAt = undefined;
+        job.error = undefined;
+        job.failed = 0;
+        for (const progress of job.documents) {
+            if (progress.status === "failed") progress.status = "pending";
+        }
+
+        const retried = this.createEntry(job, entry.engine, entry.options, Array.from(entry.pending.values()));
+        this.jobs.set(job.id, retried);
+        this.schedule(retried);
+        return this.snapshot(job);
+    }
+
+    private createEntry(job: IngestionJob, engine: IRAGEngine, options: IngestionJobOptions, documents: Document[]): JobEntry {
+        let resolve: (job: IngestionJob) => void = () => undefined;
+        const done = new Promise<IngestionJob>((res) => {
+            resolve = res;
+        });
+        return {
+            job,
+            engine,
+            options,
+            pending: new Map(documents.map((document) => [document.id, document])),
+            done,
+            resolve,
+        };
+    }
+
+    private schedule(entry: JobEntry): void {
+        this.waiting.push(entry);
+        this.drain();
+    }
+
+    private drain(): void {
+        while (this.running < this.concurrency && this.waiting.length > 0) {
+            const entry = this.waiting.shift() as JobEntry;
+            this.running++;
+            this.run(entry).finally(() => {
+                this.running--;
+                this.evictFinished();
+                this.drain();
+            });
+        }
+    }
+
+    private async run(entry: JobEntry): Promise<void> {
+        const { job } = entry;
+        job.status = "running";
+        job.startedAt = new Date();
+        const positions = new Map(job.documents.map((progress, index) => [progress.documentId, index]));
+
+        try {
+            job.result = await entry.engine.ingest(Array.from(entry.pending.values()), {
+                ...entry.options,
+                onProgress: (progress) => {
+                    const index = positions.get(progress.documentId);
+                    if (index !== undefined) job.documents[index] = progress;
+
+                    if (progress.status === "completed") {
+                        job.completed++;
+                        entry.pending.delete(progress.documentId);
+                    } else if (progress.status === "failed") {
+                        job.failed++;
+                    }
+                },
+            });
+            job.status = job.failed === 0 ? "completed" : job.completed === 0 ? "failed" : "partial";
+        } catch (error) {
+            job.status = "failed";
+            job.error = error instanceof Error ? error.message : String(error);
+            Logger.error(`Ingestion job ${job.id} failed: ${job.error}`);
+        }
+
+        job.finishedAt = new Date();
+        Logger.info(`Ingestion job ${job.id} ${job.status}: ${job.completed}/${job.total} documents`);
+        entry.resolve(job);
+    }
+
+    /**
+     * Drop the oldest finished jobs beyond the retention limit
+     */
+    private evictFinished(): void {
+        const finished = Array.from(this.jobs.values()).filter((entry) => entry.job.finishedAt);
+        const excess = finished.length - this.maxFinishedJobs;
+        if (excess <= 0) return;
+
+        finished
+            .sort((a, b) => (a.job.finishedAt as Date).getTime() - (b.job.finishedAt as Date).getTime())
+            .slice(0, excess)
+            .forEach((entry) => this.jobs.delete(entry.job.id));
+    }
+
+    private snapshot(job: IngestionJob): IngestionJob {
+        return { ...job, documents: job.documents.map((progress) => ({ ...progress })) };
+    }
+}
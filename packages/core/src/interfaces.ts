@@ -40,7 +40,7 @@ export interface Document {
 /**
  * Chunking strategy
  */
-export type ChunkingStrategy = "fixed" | "semantic" | "recursive";
+export type ChunkingStrategy = "fixed" | "semantic" | "recursive" | "markdown" | "hierarchical";
 
 /**
  * Document loader interface
@@ -72,18 +72,65 @@ export interface IDocumentProcessor {
     generateChecksum(content: string): string;
 }
 
+/**
+ * Tokenizer interface
+ */
+export interface ITokenizer {
+    /** Tokenizer name */
+    readonly name: string;
+
+    /**
+     * Count tokens in text
+     */
+    countTokens(text: string): number;
+}
+
 /**
  * Retrieved document with score
  */
 export interface RetrievedDocument {
     /** Document chunk */
     chunk: DocumentChunk;
-    /** Similarity score */
+    /** Relevance score in 0..1 */
     score: number;
     /** Source reference */
     source: string;
 }
 
+/**
+ * Score a retrieval threshold is applied to
+ * - vector: cosine similarity
+ * - keyword: calibrated BM25, `score / (score + 1)` so weak matches stay low
+ * - hybrid: fused vector and keyword score
+ * - rerank: reranker relevance
+ */
+export type ScoreStage = "vector" | "keyword" | "hybrid" | "rerank";
+
+/**
+ * Candidates before and after one score threshold
+ */
+export interface ThresholdResult {
+    stage: ScoreStage;
+    threshold: number;
+    /** Candidates scored at this stage */
+    candidates: number;
+    /** Candidates at or above the threshold */
+    retained: number;
+    /** Highest score at this stage */
+    bestScore?: number | undefined;
+}
+
+/**
+ * Diagnostics of a single retrieval
+ */
+export interface RetrievalReport {
+    query: string;
+    /** Candidates returned by the search */
+    candidates: number;
+    /** Thresholds applied, in order */
+    thresholds: ThresholdResult[];
+}
+
 /**
  * Retriever interface
  */
@@ -91,7 +138,13 @@ export interface IRetriever {
     /**
      * Retrieve relevant documents for a query
      */
-    retrieve(query: string, topK?: number, scoreThreshold?: number): Promise<RetrievedDocument[]>;
+    retrieve(
+        query: string,
+        topK?: number,
+        scoreThreshold?: number,
+        filter?: MetadataFilter,
+        onReport?: (report: RetrievalReport) => void,
+    ): Promise<RetrievedDocument[]>;
 
     /**
      * Add documents to the vector store
@@ -102,6 +155,28 @@ export interface IRetriever {
      * Delete documents by IDs
      */
     deleteDocuments(documentIds: string[]): Promise<void>;
+
+    /**
+     * Delete individual chunks by IDs
+     */
+    deleteChunks(chunkIds: string[]): Promise<void>;
+
+    /**
+     * List stored chunks, optionally only those of the given documents
+     */
+    listChunks(documentIds?: string[]): Promise<DocumentChunk[]>;
+}
+
+/**
+ * Step of a multi-hop query
+ */
+export interface QueryStep {
+    /** Sub-question answered in this step */
+    question: string;
+    /** Intermediate answer, or INSUFFICIENT_CONTEXT */
+    answer: string;
+    /** Evidence the answer is based on */
+    documents: RetrievedDocument[];
 }
 
 /**
@@ -172,6 +247,45 @@ export interface IDocumentStore {
     getAll?(): Promise<Document[]>;
 }
 
+/**
+ * Manifest entry for an ingested document
+ */
+export interface DocumentInfo {
+    /** Document ID */
+    id: string;
+    /** Source information */
+    source: string;
+    /** Checksum of the document content */
+    checksum: string;
+    /** Number of stored chunks */
+    chunkCount: number;
+    /** When the document content was last ingested */
+    ingestedAt: Date;
+    /** Document metadata */
+    metadata: Record<string, unknown>;
+}
+
+/**
+ * Manifest entry with the document's stored chunks
+ */
+export interface DocumentDetails extends DocumentInfo {
+    chunks: DocumentChunk[];
+}
+
+/**
+ * Catalog of the documents ingested into an agent
+ */
+export interface IDocumentManifest {
+    /** Get a document entry by ID */
+    get(documentId: string): Promise<DocumentInfo | undefined>;
+    /** Add or replace document entries */
+    set(documents: DocumentInfo[]): Promise<void>;
+    /** Delete document entries by IDs */
+    delete(documentIds: string[]): Promise<void>;
+    /** List all document entries */
+    list(): Promise<DocumentInfo[]>;
+}
+
 /**
  * Memory manager interface
  */
@@ -181,6 +295,11 @@ export interface IMemoryManager {
      */
     addMessage(sessionId: string, message: ChatMessage): Promise<void>;
 
+    /**
+     * Add several messages to the conversation history in one write
+     */
+    addMessages(sessionId: string, messages: ChatMessage[]): Promise<void>;
+
     /**
      * Get conversation history
      */
@@ -190,6 +309,90 @@ export interface IMemoryManager {
      * Clear conversation history
      */
     clearHistory(sessionId: string): Promise<void>;
+
+    /**
+     * Start a new session and return its ID
+     */
+    createSession(): Promise<string>;
+
+    /**
+     * Get the stored state of a session
+     */
+    getSession(sessionId: string): Promise<ConversationSession | undefined>;
+
+    /**
+     * List stored sessions
+     */
+    listSessions(): Promise<SessionInfo[]>;
+}
+
+/**
+ * Stored conversation state for a session
+ */
+export interface ConversationSession {
+    /** Recent messages, oldest first */
+    messages: ChatMessage[];
+    /** Summary of turns compacted out of `messages` */
+    summary?: string | undefined;
+    /** Last time the session was written */
+    updatedAt: Date;
+}
+
+/**
+ * Session listing entry
+ */
+export interface SessionInfo {
+    id: string;
+    messageCount: number;
+    hasSummary: boolean;
+    updatedAt: Date;
+}
+
+/**
+ * Options of an append to a stored session
+ */
+export interface MemoryAppendOptions {
+    /** Keep only this many of the latest messages */
+    maxMessages?: number | undefined;
+    /** Start the session over when it was last written before this date */
+    expiredBefore?: Date | undefined;
+}
+
+/**
+ * Persistence backend for conversation memory
+ */
+export interface IMemoryStore {
+    /**
+     * Load a session
+     */
+    get(sessionId: string): Promise<ConversationSession | undefined>;
+
+    /**
+     * Save a session, replacing any previous state
+     */
+    set(sessionId: string, session: ConversationSession): Promise<void>;
+
+    /**
+     * Add messages to a session in one write, creating it when missing
+     * Returns the session as stored
+     */
+    append(sessionId: string, messages: ChatMessage[], options?: MemoryAppendOptions): Promise<ConversationSession>;
+
+    /**
+     * Delete a session
+     */
+    delete(sessionId: string): Promise<void>;
+
+    /**
+     * Delete sessions last written before the given date
+     * Returns the number of deleted sessions
+     */
+    deleteExpired(before: Date): Promise<number>;
+
+    /**
+     * List stored sessions
+     */
+    list(): Promise<SessionInfo[]>;
 }
 
 /**
@@ -227,6 +430,20 @@ export interface ICompressor {
     compress(query: string, documents: RetrievedDocument[]): Promise<RetrievedDocument[]>;
 }
 
+/**
+ * Token usage reported by a provider
+ */
+export interface TokenUsage {
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+}
+
+/**
+ * Why the model stopped generating
+ */
+export type LLMFinishReason = "stop" | "length" | "tool_calls" | "content_filter" | "other";
+
 /**
  * LLM response
  */
@@ -236,42 +453,58 @@ export interface LLMResponse {
     /** Tool calls if model requested them */
     toolCalls?: ToolCall[];
     /** Token usage */
-    usage?: {
-        promptTokens: number;
-        completionTokens: number;
-        totalTokens: number;
-    };
+    usage?: TokenUsage;
+    /** Why generation stopped */
+    finishReason?: LLMFinishReason;
     /** Model used */
     model: string;
 }
 
+/**
+ * Event emitted by a streaming LLM generation
+ */
+export type LLMStreamEvent =
+    | { type: "text_delta"; text: string }
+    | {
+        type: "tool_call_delta";
+        /** Position of the tool call within the response, used to join deltas */
+        index: number;
+        id?: string;
+        name?: string;
+        /** Fragment of the JSON-encoded arguments */
+        argumentsDelta?: string;
+    }
+    | { type: "usage"; usage: TokenUsage }
+    | { type: "finish"; reason: LLMFinishReason };
+
+/**
+ * LLM generation options
+ */
+export interface LLMGenerateOptions {
+    temperature?: number;
+    maxTokens?: number;
+    /** Tools the model may call */
+    tools?: ITool[];
+}
+
 /**
  * LLM provider interface
  */
 export interface ILLMProvider {
     /**
      * Generate a response
+     * A string input is sent as a single user message
      */
-    generate(
-        input: string | ChatMessage[],
-        options?: {
-            temperature?: number;
-            maxTokens?: number;
-            tools?: ITool[];
-        }
-    ): Promise<LLMResponse>;
+    generate(input: string | ChatMessage[], options?: LLMGenerateOptions): Promise<LLMResponse>;
 
     /**
      * Generate a streaming response
+     * Emits text and tool call deltas, then usage and the finish reason
      */
     generateStream(
         input: string | ChatMessage[],
-        options?: {
-            temperature?: number;
-            maxTokens?: number;
-            tools?: ITool[];
-        },
-    ): AsyncGenerator<string, void, unknown>;
+        options?: LLMGenerateOptions,
+    ): AsyncGenerator<LLMStreamEvent, void, unknown>;
 }
 
 /**
@@ -289,6 +522,16 @@ export interface IEmbeddingProvider {
     getDimensions(): number;
 }
 
+/**
+ * Embeddings the retriever already has, so rerankers that compare vectors need not embed again
+ */
+export interface RerankContext {
+    /** Embedding of the query, when the search computed one */
+    queryEmbedding?: number[] | undefined;
+    /** Stored vectors of chunks by ID; chunks without one are left out */
+    getEmbeddings?: ((chunkIds: string[]) => Promise<Map<string, number[]>>) | undefined;
+}
+
 /**
  * Reranker interface
  */
@@ -296,7 +539,45 @@ export interface IReranker {
     /**
      * Rerank retrieved documents based on query relevance
      */
-    rerank(query: string, documents: DocumentChunk[], topK?: number): Promise<Array<{ index: number; score: number }>>;
+    rerank(
+        query: string,
+        documents: DocumentChunk[],
+        topK?: number,
+        context?: RerankContext,
+    ): Promise<Array<{ index: number; score: number }>>;
+}
+
+/**
+ * Scalar value stored in chunk metadata
+ */
+export type MetadataValue = string | number | boolean;
+
+/**
+ * Condition on a single metadata field
+ * A bare value is shorthand for `$eq`
+ */
+export type MetadataFieldCondition =
+    | MetadataValue
+    | {
+        $eq?: MetadataValue;
+        $ne?: MetadataValue;
+        $in?: MetadataValue[];
+        $nin?: MetadataValue[];
+        $gt?: number | string;
+        $gte?: number | string;
+        $lt?: number | string;
+        $lte?: number | string;
+        $exists?: boolean;
+    };
+
+/**
+ * Metadata filter
+ * Field conditions are combined with AND; `$and` and `$or` nest filters
+ */
+export interface MetadataFilter {
+    $and?: MetadataFilter[];
+    $or?: MetadataFilter[];
+    [field: string]: MetadataFieldCondition | MetadataFilter[] | undefined;
 }
 
 /**
@@ -305,6 +586,7 @@ export interface IReranker {
 export interface IVectorStore {
     /**
      * Add vectors with metadata
+     * Chunks whose ID is already stored are replaced
      */
     add(vectors: number[][], metadata: DocumentChunk[]): Promise<void>;
 
@@ -314,7 +596,7 @@ export interface IVectorStore {
     search(
         vector: number[] | undefined,
         topK: number,
-        filter?: Record<string, unknown>,
+        filter?: MetadataFilter,
         query?: string,
     ): Promise<Array<{ chunk: DocumentChunk; score: number }>>;
 
@@ -323,12 +605,38 @@ export interface IVectorStore {
      */
     delete(documentIds: string[]): Promise<void>;
 
+    /**
+     * Delete vectors by chunk IDs
+     */
+    deleteChunks(chunkIds: string[]): Promise<void>;
+
+    /**
+     * List stored chunks without their vectors
+     * Lists every chunk when no document IDs are given
+     */
+    list(documentIds?: string[]): Promise<DocumentChunk[]>;
+
+    /**
+     * Get the stored vectors of chunks
+     * Unknown IDs are left out
+     */
+    getEmbeddings(chunkIds: string[]): Promise<Map<string, number[]>>;
+
     /**
      * Get collection/namespace info
      */
     getInfo(): Promise<{ count: number; dimensions: number }>;
 }
 
+/**
+ * Source cited by a RAG response
+ */
+export interface RAGSource {
+    content: string;
+    source: string;
+    score: number;
+}
+
 /**
  * RAG engine response
  */
@@ -336,9 +644,13 @@ export interface RAGResponse {
     /** Generated answer */
     answer: string;
     /** Retrieved sources */
-    sources: Array<{ content: string; source: string; score: number }>;
+    sources: RAGSource[];
     /** Whether context was sufficient */
     contextSufficient: boolean;
+    /** Where the candidates were lost when no context was found */
+    insufficientContext?: InsufficientContextReport | undefined;
+    /** Intermediate steps of a multi-hop query */
+    steps?: RAGStep[] | undefined;
     /** Token usage */
     usage?: {
         promptTokens: number;
@@ -350,6 +662,145 @@ export interface RAGResponse {
         amount: number;
         currency: string;
     } | undefined;
+    /** Trace ID of the request that produced the response */
+    traceId?: string | undefined;
+}
+
+/**
+ * Intermediate step of a multi-hop response
+ */
+export interface RAGStep {
+    question: string;
+    answer: string;
+    sources: RAGSource[];
+}
+
+/**
+ * Step that removed the last candidate documents of a query
+ * - search: no chunk matched the query and filter
+ * - threshold: every candidate scored below a score threshold
+ * - retrieve, expand, compress: the stage or its hook dropped the remaining documents
+ */
+export type ContextDropStage = "search" | "threshold" | "retrieve" | "expand" | "compress";
+
+/**
+ * Why a query found no context to answer from
+ */
+export interface InsufficientContextReport {
+    stage: ContextDropStage;
+    /** Candidates returned by the searches */
+    candidates: number;
+    /** Thresholds that removed all of their candidates */
+    thresholds: ThresholdResult[];
+}
+
+/**
+ * Progress event emitted by a streaming RAG query
+ * Sources are emitted before generation starts so they can be cited while the answer streams
+ * Token events carry only the final answer; text from turns that call tools is not streamed
+ */
+export type RAGStreamEvent =
+    | { type: "retrieval"; sources: RAGSource[] }
+    | ({ type: "step" } & RAGStep)
+    | { type: "tool_call_started"; id: string; name: string; arguments: Record<string, unknown> }
+    | { type: "tool_call_finished"; id: string; name: string; result: string }
+    | { type: "token"; text: string };
+
+/**
+ * Per-request query options
+ */
+export interface QueryOptions {
+    topK?: number;
+    temperature?: number;
+    sessionId?: string;
+    /** Restrict retrieval to chunks whose metadata matches */
+    filter?: MetadataFilter;
+}
+
+/**
+ * Per-request retrieval options
+ */
+export interface RetrieveOptions {
+    topK?: number;
+    /** Minimum relevance score; defaults to the agent's retrieval config */
+    scoreThreshold?: number;
+    /** Restrict retrieval to chunks whose metadata matches */
+    filter?: MetadataFilter;
+}
+
+/**
+ * Chunk returned by retrieval without generation
+ */
+export interface RetrievalResult extends RAGSource {
+    /** Chunk ID */
+    id: string;
+    documentId: string;
+    metadata: Record<string, unknown>;
+}
+
+/**
+ * Ingestion options
+ */
+export interface IngestOptions {
+    /**
+     * Remove stored documents that are missing from this batch
+     * `true` prunes every other document; a filter prunes only documents whose chunk metadata matches
+     */
+    prune?: boolean | MetadataFilter;
+    /** Documents processed in parallel (default 4) */
+    concurrency?: number;
+    /** Extra attempts for a document that fails (default 2) */
+    retries?: number;
+    /** Called whenever a document's status changes */
+    onProgress?: (progress: DocumentIngestProgress) => void;
+}
+
+/**
+ * Chunk counts comparing ingested documents with what was already stored
+ */
+export interface ChunkIngestCounts {
+    /** Chunks in the processed documents */
+    chunks: number;
+    /** New chunks embedded and stored */
+    added: number;
+    /** Changed chunks re-embedded and replaced */
+    updated: number;
+    /** Unchanged chunks left as they were */
+    skipped: number;
+    /** Stale chunks and chunks of pruned documents removed */
+    removed: number;
+}
+
+/**
+ * Ingestion status of a single document
+ */
+export type DocumentIngestStatus = "pending" | "processing" | "completed" | "failed";
+
+/**
+ * Progress of a single document
+ */
+export interface DocumentIngestProgress {
+    documentId: string;
+    source: string;
+    status: DocumentIngestStatus;
+    /** Attempts started so far */
+    attempts: number;
+    /** Last error message */
+    error?: string | undefined;
+    /** Chunk counts once completed */
+    counts?: ChunkIngestCounts | undefined;
+}
+
+/**
+ * Ingestion result
+ * Documents that still fail after their retries are reported instead of thrown
+ */
+export interface IngestResult extends ChunkIngestCounts {
+    /** Documents ingested successfully */
+    processed: number;
+    /** Documents that failed */
+    failed: number;
+    errors: Array<{ documentId: string; source: string; error: string }>;
 }
 
 /**
@@ -361,7 +812,7 @@ export interface IRAGEngine {
      */
     query(
         query: string,
-        options?: { topK?: number; temperature?: number; sessionId?: string },
+        options?: QueryOptions,
     ): Promise<RAGResponse>;
 
     /**
@@ -369,16 +820,34 @@ export interface IRAGEngine {
      */
     queryStream(
         query: string,
-        options?: { topK?: number; temperature?: number; sessionId?: string },
-    ): AsyncGenerator<string, RAGResponse, unknown>;
+        options?: QueryOptions,
+    ): AsyncGenerator<RAGStreamEvent, RAGResponse, unknown>;
+
+    /**
+     * Retrieve relevant chunks without generating an answer
+     */
+    retrieve(
+        query: string,
+        options?: RetrieveOptions,
+    ): Promise<RetrievalResult[]>;
 
     /**
-     * Ingest documents
+     * Ingest documents, skipping chunks that are already stored unchanged
      */
-    ingest(documents: Document[]): Promise<{ processed: number; chunks: number }>;
+    ingest(documents: Document[], options?: IngestOptions): Promise<IngestResult>;
 
     /**
      * Delete documents
      */
     deleteDocuments(documentIds: string[]): Promise<void>;
+
+    /**
+     * List ingested documents
+     */
+    listDocuments(): Promise<DocumentInfo[]>;
+
+    /**
+     * Get an ingested document with its chunks
+     */
+    getDocument(documentId: string): Promise<DocumentDetails | undefined>;
 }
@@ -0,0 +1,79 @@
+import type { LLMFinishReason, LLMResponse, LLMStreamEvent, TokenUsage, ToolCall } from "./interfaces";
+
+/**
+ * Collects streaming LLM events into a complete response
+ */
+export class LLMStreamAccumulator {
+    private text = "";
+    private readonly toolCalls = new Map<number, { id?: string; name: string; arguments: string }>();
+    private usage?: TokenUsage;
+    private finishReason?: LLMFinishReason;
+
+    /**
+     * Apply a stream event
+     */
+    push(event: LLMStreamEvent): void {
+        switch (event.type) {
+            case "text_delta":
+                this.text += event.text;
+                break;
+            case "tool_call_delta": {
+                const call = this.toolCalls.get(event.index) ?? { name: "", arguments: "" };
+                if (event.id) call.id = event.id;
+                if (event.name) call.name += event.name;
+                if (event.argumentsDelta) call.arguments += event.argumentsDelta;
+                this.toolCalls.set(event.index, call);
+                break;
+            }
+            case "usage":
+                this.usage = event.usage;
+                break;
+            case "finish":
+                this.finishReason = event.reason;
+                break;
+        }
+    }
+
+    /**
+     * Text received so far
+     */
+    getText(): string {
+        return this.text;
+    }
+
+    /**
+     * Completed tool calls, ordered by index
+     */
+    getToolCalls(): ToolCall[] {
+        return Array.from(this.toolCalls.entries())
+            .sort(([a], [b]) => a - b)
+            .map(([index, call]) => ({
+                id: call.id || `call_${index}`,
+                name: call.name,
+                arguments: this.parseArguments(call.name, call.arguments),
+            }));
+    }
+
+    /**
+     * Build the equivalent non-streamed response
+     */
+    toResponse(model: string): LLMResponse {
+        const toolCalls = this.getToolCalls();
+        return {
+            content: this.text,
+            model,
+            ...(toolCalls.length > 0 ? { toolCalls } : {}),
+            ...(this.usage ? { usage: this.usage } : {}),
+            ...(this.finishReason ? { finishReason: this.finishReason } : {}),
+        };
+    }
+
+    private parseArguments(name: string, raw: string): Record<string, unknown> {
+        if (raw.trim().length === 0) return {};
+        try {
+            return JSON.parse(raw);
+        } catch {
+            throw new Error(`Invalid streamed arguments for tool ${name}`);
+        }
+    }
+}
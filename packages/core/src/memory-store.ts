@@ -0,0 +1,357 @@
+import { mkdir, readdir, readFile, rename, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { createClient, type Client } from "@libsql/client";
+import type { MemoryStoreConfig } from "@ragx/config";
+import type { ChatMessage, ConversationSession, IMemoryStore, MemoryAppendOptions, SessionInfo } from "./interfaces";
+
+/**
+ * Attempts of a libSQL append that finds the database locked, and the delay before the first retry
+ */
+const APPEND_ATTEMPTS = 6;
+const APPEND_RETRY_DELAY_MS = 20;
+
+/**
+ * Serialized form of a session
+ */
+interface StoredSession {
+    messages: Array<Omit<ChatMessage, "timestamp"> & { timestamp: string }>;
+    summary?: string | undefined;
+    updatedAt: string;
+}
+
+function serialize(session: ConversationSession): StoredSession {
+    return {
+        messages: session.messages.map((message) => ({
+            ...message,
+            timestamp: message.timestamp.toISOString(),
+        })),
+        summary: session.summary,
+        updatedAt: session.updatedAt.toISOString(),
+    };
+}
+
+function deserialize(stored: StoredSession): ConversationSession {
+    return {
+        messages: stored.messages.map((message) => ({
+            ...message,
+            timestamp: new Date(message.timestamp),
+        })),
+        summary: stored.summary,
+        updatedAt: new Date(stored.updatedAt),
+    };
+}
+
+/**
+ * Session after appending messages to its stored state
+ */
+function appendMessages(
+    session: ConversationSession | undefined,
+    messages: ChatMessage[],
+    options: MemoryAppendOptions = {},
+): ConversationSession {
+    const current = session && !(options.expiredBefore && session.updatedAt < options.expiredBefore) ? session : undefined;
+    const appended = [...(current?.messages ?? []), ...messages];
+    return {
+        messages: options.maxMessages !== undefined ? appended.slice(-options.maxMessages) : appended,
+        summary: current?.summary,
+        updatedAt: new Date(),
+    };
+}
+
+function toSessionInfo(id: string, session: ConversationSession): SessionInfo {
+    return {
+        id,
+        messageCount: session.messages.length,
+        hasSummary: Boolean(session.summary),
+        updatedAt: session.updatedAt,
+    };
+}
+
+/**
+ * Process-local memory store
+ */
+export class InMemoryMemoryStore implements IMemoryStore {
+    private readonly sessions = new Map<string, ConversationSession>();
+
+    async get(sessionId: string): Promise<ConversationSession | undefined> {
+        return this.sessions.get(sessionId);
+    }
+
+    async set(sessionId: string, session: ConversationSession): Promise<void> {
+        this.sessions.set(sessionId, session);
+    }
+
+    async append(sessionId: string, messages: ChatMessage[], options?: MemoryAppendOptions): Promise<ConversationSession> {
+        const session = appendMessages(this.sessions.get(sessionId), messages, options);
+        this.sessions.set(sessionId, session);
+        return session;
+    }
+
+    async delete(sessionId: string): Promise<void> {
+        this.sessions.delete(sessionId);
+    }
+
+    async deleteExpired(before: Date): Promise<number> {
+        let deleted = 0;
+        for (const [sessionId, session] of this.sessions) {
+            if (session.updatedAt < before) {
+                this.sessions.delete(sessionId);
+                deleted++;
+            }
+        }
+        return deleted;
+    }
+
+    async list(): Promise<SessionInfo[]> {
+        return Array.from(this.sessions, ([id, session]) => toSessionInfo(id, session));
+    }
+}
+
+/**
+ * File-based memory store
+ * Each session is a JSON file in the configured directory
+ */
+export class FileMemoryStore implements IMemoryStore {
+    constructor(private readonly directory: string) { }
+
+    async get(sessionId: string): Promise<ConversationSession | undefined> {
+        try {
+            const raw = await readFile(this.pathFor(sessionId), "utf-8");
+            return deserialize(JSON.parse(raw));
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+            throw error;
+        }
+    }
+
+    async set(sessionId: string, session: ConversationSession): Promise<void> {
+        await mkdir(this.directory, { recursive: true });
+
+        // Write to a temporary file first so readers never see a partial session
+        // Each write gets its own file, so concurrent writes cannot interleave; the last rename wins
+        const path = this.pathFor(sessionId);
+        const tempPath = `${path}.${process.pid}.${crypto.randomUUID()}.tmp`;
+        await writeFile(tempPath, JSON.stringify(serialize(session)), "utf-8");
+        await rename(tempPath, path);
+    }
+
+    /**
+     * Read, extend and rewrite the session file
+     * Only atomic within a process, where the memory manager serializes writes per session
+     */
+    async append(sessionId: string, messages: ChatMessage[], options?: MemoryAppendOptions): Promise<ConversationSession> {
+        const session = appendMessages(await this.get(sessionId), messages, options);
+        await this.set(sessionId, session);
+        return session;
+    }
+
+    async delete(sessionId: string): Promise<void> {
+        await rm(this.pathFor(sessionId), { force: true });
+    }
+
+    async deleteExpired(before: Date): Promise<number> {
+        let files: string[];
+        try {
+            files = await readdir(this.directory);
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === "ENOENT") return 0;
+            throw error;
+        }
+
+        let deleted = 0;
+        for (const file of files.filter((name) => name.endsWith(".json"))) {
+            const path = join(this.directory, file);
+            try {
+                const stored = JSON.parse(await readFile(path, "utf-8")) as StoredSession;
+                if (new Date(stored.updatedAt) < before) {
+                    await rm(path, { force: true });
+                    deleted++;
+                }
+            } catch {
+                // Skip files removed or rewritten concurrently
+            }
+        }
+        return deleted;
+    }
+
+    async list(): Promise<SessionInfo[]> {
+        let files: string[];
+        try {
+            files = await readdir(this.directory);
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+            throw error;
+        }
+
+        const sessions: SessionInfo[] = [];
+        for (const file of files.filter((name) => name.endsWith(".json"))) {
+            const id = decodeURIComponent(file.slice(0, -".json".length));
+            const session = await this.get(id).catch(() => undefined);
+            if (session) sessions.push(toSessionInfo(id, session));
+        }
+        return sessions;
+    }
+
+    private pathFor(sessionId: string): string {
+        return join(this.directory, `${encodeURIComponent(sessionId)}.json`);
+    }
+}
+
+/**
+ * SQLite/libSQL memory store
+ * Agents can share a table; sessions are scoped by agent name
+ */
+export class LibSQLMemoryStore implements IMemoryStore {
+    private readonly client: Client;
+    private readonly table: string;
+    private initialized: Promise<void> | undefined;
+
+    constructor(
+        private readonly agentName: string,
+        config: { url: string; authToken?: string | undefined; table?: string | undefined },
+    ) {
+        this.client = createClient({
+            url: config.url,
+            authToken: config.authToken || "",
+        });
+        this.table = config.table || "ragx_sessions";
+    }
+
+    /**
+     * Initialize the table if it doesn't exist
+     */
+    async initialize(): Promise<void> {
+        this.initialized ??= this.client.batch([
+            `CREATE TABLE IF NOT EXISTS ${this.table} (
+                agent TEXT NOT NULL,
+                session_id TEXT NOT NULL,
+                messages TEXT NOT NULL,
+                summary TEXT,
+                updated_at TEXT NOT NULL,
+                PRIMARY KEY (agent, session_id)
+            )`,
+            `CREATE INDEX IF NOT EXISTS ${this.table}_updated_at ON ${this.table} (agent, updated_at)`,
+        ], "write").then(
+            () => undefined,
+            (error) => {
+                // Allow a later call to retry
+                this.initialized = undefined;
+                throw error;
+            },
+        );
+        return this.initialized;
+    }
+
+    async get(sessionId: string): Promise<ConversationSession | undefined> {
+        await this.initialize();
+        return this.read(this.client, sessionId);
+    }
+
+    async set(sessionId: string, session: ConversationSession): Promise<void> {
+        await this.initialize();
+        await this.write(this.client, sessionId, session);
+    }
+
+    /**
+     * Read and rewrite the session in a write transaction, so appends from other processes are not lost
+     * A transaction that finds the database locked by another writer is retried with backoff
+     */
+    async append(sessionId: string, messages: ChatMessage[], options?: MemoryAppendOptions): Promise<ConversationSession> {
+        await this.initialize();
+
+        for (let attempt = 1; ; attempt++) {
+            try {
+                const transaction = await this.client.transaction("write");
+                try {
+                    const session = appendMessages(await this.read(transaction, sessionId), messages, options);
+                    await this.write(transaction, sessionId, session);
+                    await transaction.commit();
+                    return session;
+                } finally {
+                    transaction.close();
+                }
+            } catch (error) {
+                if (attempt >= APPEND_ATTEMPTS || (error as { code?: string }).code !== "SQLITE_BUSY") throw error;
+                await new Promise((resolve) => setTimeout(resolve, APPEND_RETRY_DELAY_MS * 2 ** (attempt - 1)));
+            }
+        }
+    }
+
+    async delete(sessionId: string): Promise<void> {
+        await this.initialize();
+        await this.client.execute({
+            sql: `DELETE FROM ${this.table} WHERE agent = ? AND session_id = ?`,
+            args: [this.agentName, sessionId],
+        });
+    }
+
+    async deleteExpired(before: Date): Promise<number> {
+        await this.initialize();
+        // ISO timestamps sort lexicographically
+        const result = await this.client.execute({
+            sql: `DELETE FROM ${this.table} WHERE agent = ? AND updated_at < ?`,
+            args: [this.agentName, before.toISOString()],
+        });
+        return result.rowsAffected;
+    }
+
+    async list(): Promise<SessionInfo[]> {
+        await this.initialize();
+        const result = await this.client.execute({
+            sql: `SELECT session_id, json_array_length(messages) AS message_count, summary IS NOT NULL AS has_summary, updated_at
+                  FROM ${this.table} WHERE agent = ? ORDER BY updated_at DESC`,
+            args: [this.agentName],
+        });
+
+        return result.rows.map((row) => ({
+            id: String(row.session_id),
+            messageCount: Number(row.message_count),
+            hasSummary: Boolean(row.has_summary),
+            updatedAt: new Date(String(row.updated_at)),
+        }));
+    }
+
+    private async read(executor: Pick<Client, "execute">, sessionId: string): Promise<ConversationSession | undefined> {
+        const result = await executor.execute({
+            sql: `SELECT messages, summary, updated_at FROM ${this.table} WHERE agent = ? AND session_id = ?`,
+            args: [this.agentName, sessionId],
+        });
+
+        const row = result.rows[0];
+        if (!row) return undefined;
+
+        return deserialize({
+            messages: JSON.parse(String(row.messages)),
+            summary: row.summary === null ? undefined : String(row.summary),
+            updatedAt: String(row.updated_at),
+        });
+    }
+
+    private async write(executor: Pick<Client, "execute">, sessionId: string, session: ConversationSession): Promise<void> {
+        const stored = serialize(session);
+        await executor.execute({
+            sql: `INSERT OR REPLACE INTO ${this.table} (agent, session_id, messages, summary, updated_at) VALUES (?, ?, ?, ?, ?)`,
+            args: [this.agentName, sessionId, JSON.stringify(stored.messages), stored.summary ?? null, stored.updatedAt],
+        });
+    }
+}
+
+/**
+ * Create a memory store for an agent from configuration
+ * File sessions live in a subdirectory per agent
+ */
+export function createMemoryStore(agentName: string, config?: MemoryStoreConfig): IMemoryStore {
+    switch (config?.provider ?? "memory") {
+        case "memory":
+            return new InMemoryMemoryStore();
+        case "file":
+            return new FileMemoryStore(join(config?.path || join(".ragx", "sessions"), agentName));
+        case "libsql":
+            if (!config?.url) {
+                throw new Error("LibSQL memory store requires a url");
+            }
+            return new LibSQLMemoryStore(agentName, { url: config.url, authToken: config.authToken, table: config.table });
+        default:
+            throw new Error(`Unknown memory store provider: ${config?.provider}`);
+    }
+}
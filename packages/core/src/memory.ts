@@ -1,47 +1,204 @@
-
-import type { ChatMessage, IMemoryManager } from "./interfaces";
+import { randomUUID } from "node:crypto";
+import type {
+    ChatMessage,
+    ConversationSession,
+    ILLMProvider,
+    IMemoryManager,
+    IMemoryStore,
+    SessionInfo,
+} from "./interfaces";
+import { InMemoryMemoryStore } from "./memory-store";
+import { Logger } from "./logger";
 
 export interface MemoryManagerConfig {
+    /** Memory mode; "none" disables history */
+    type?: "buffer" | "summary" | "none";
     maxMessages?: number;
+    /** Seconds of inactivity after which a session expires */
+    ttl?: number | undefined;
 }
 
 /**
- * In-memory implementation of conversation history management
+ * Conversation history management on top of a pluggable store
+ * In "summary" mode older turns are compacted into a running summary by the LLM
  */
 export class MemoryManager implements IMemoryManager {
-    private memories: Map<string, ChatMessage[]> = new Map();
+    private readonly type: "buffer" | "summary" | "none";
     private readonly maxMessages: number;
+    private readonly ttlMs?: number;
+    private lastSweep = 0;
+    /** Pending writes per session, so concurrent requests don't drop each other's messages */
+    private readonly writes = new Map<string, Promise<void>>();
 
-    constructor(config?: MemoryManagerConfig) {
+    constructor(
+        config?: MemoryManagerConfig,
+        private readonly store: IMemoryStore = new InMemoryMemoryStore(),
+        private readonly llmProvider?: ILLMProvider,
+    ) {
+        this.type = config?.type || "buffer";
         this.maxMessages = config?.maxMessages || 10;
+        if (config?.ttl) this.ttlMs = config.ttl * 1000;
+
+        if (this.type === "summary" && !llmProvider) {
+            throw new Error("Summary memory requires an LLM provider");
+        }
     }
 
     /**
      * Add a message to the conversation history
      */
     async addMessage(sessionId: string, message: ChatMessage): Promise<void> {
-        let history = this.memories.get(sessionId) || [];
-        history.push(message);
+        await this.addMessages(sessionId, [message]);
+    }
 
-        // Enforce limit (keep last N messages)
-        if (history.length > this.maxMessages) {
-            history = history.slice(history.length - this.maxMessages);
-        }
+    /**
+     * Add several messages to the conversation history in one write
+     * Buffer mode keeps the last N messages; summary mode compacts older turns once the buffer is full
+     */
+    async addMessages(sessionId: string, messages: ChatMessage[]): Promise<void> {
+        if (this.type === "none" || messages.length === 0) return;
 
-        this.memories.set(sessionId, history);
+        await this.sweepExpired();
+
+        await this.serialize(sessionId, async () => {
+            const expiredBefore = this.ttlMs !== undefined ? new Date(Date.now() - this.ttlMs) : undefined;
+            if (this.type !== "summary") {
+                await this.store.append(sessionId, messages, { maxMessages: this.maxMessages, expiredBefore });
+                return;
+            }
+
+            const session = await this.store.append(sessionId, messages, { expiredBefore });
+            if (session.messages.length > this.maxMessages) {
+                await this.compact(session);
+                await this.store.set(sessionId, session);
+            }
+        });
     }
 
     /**
      * Get conversation history
+     * In summary mode the summary is returned as a leading system message
      */
     async getHistory(sessionId: string): Promise<ChatMessage[]> {
-        return this.memories.get(sessionId) || [];
+        if (this.type === "none") return [];
+
+        const session = await this.load(sessionId);
+        if (!session) return [];
+
+        if (!session.summary) return session.messages;
+
+        return [
+            {
+                role: "system",
+                content: `Summary of the earlier conversation:\n${session.summary}`,
+                timestamp: session.messages[0]?.timestamp ?? session.updatedAt,
+            },
+            ...session.messages,
+        ];
     }
 
     /**
      * Clear conversation history
      */
     async clearHistory(sessionId: string): Promise<void> {
-        this.memories.delete(sessionId);
+        await this.serialize(sessionId, () => this.store.delete(sessionId));
+    }
+
+    /**
+     * Start a new session and return its ID
+     * Nothing is stored when memory is disabled
+     */
+    async createSession(): Promise<string> {
+        const sessionId = randomUUID();
+        if (this.type !== "none") {
+            await this.sweepExpired();
+            await this.store.set(sessionId, { messages: [], updatedAt: new Date() });
+        }
+        return sessionId;
+    }
+
+    /**
+     * Get the stored state of a session
+     */
+    async getSession(sessionId: string): Promise<ConversationSession | undefined> {
+        return this.load(sessionId);
+    }
+
+    /**
+     * List stored sessions, most recently used first
+     */
+    async listSessions(): Promise<SessionInfo[]> {
+        const sessions = await this.store.list();
+        return sessions
+            .filter((session) => this.ttlMs === undefined || Date.now() - session.updatedAt.getTime() <= this.ttlMs)
+            .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+    }
+
+    /**
+     * Load a session, dropping it if it has expired
+     */
+    private async load(sessionId: string): Promise<ConversationSession | undefined> {
+        const session = await this.store.get(sessionId);
+        if (session && this.isExpired(session)) {
+            await this.store.delete(sessionId);
+            return undefined;
+        }
+        return session;
+    }
+
+    /**
+     * Run a write once the earlier writes to the same session have settled
+     */
+    private async serialize(sessionId: string, write: () => Promise<void>): Promise<void> {
+        const pending = (this.writes.get(sessionId) ?? Promise.resolve()).then(write);
+        const settled = pending.catch(() => undefined);
+        this.writes.set(sessionId, settled);
+        try {
+            await pending;
+        } finally {
+            if (this.writes.get(sessionId) === settled) this.writes.delete(sessionId);
+        }
+    }
+
+    private isExpired(session: ConversationSession): boolean {
+        return this.ttlMs !== undefined && Date.now() - session.updatedAt.getTime() > this.ttlMs;
+    }
+
+    /**
+     * Delete expired sessions, at most once per TTL period
+     */
+    private async sweepExpired(): Promise<void> {
+        if (this.ttlMs === undefined || Date.now() - this.lastSweep < this.ttlMs) return;
+
+        this.lastSweep = Date.now();
+        const deleted = await this.store.deleteExpired(new Date(Date.now() - this.ttlMs));
+        if (deleted > 0) Logger.debug(`Expired ${deleted} idle sessions`);
+    }
+
+    /**
+     * Fold the older half of the buffer into the running summary
+     */
+    private async compact(session: ConversationSession): Promise<void> {
+        const keep = Math.max(Math.floor(this.maxMessages / 2), 1);
+        const older = session.messages.slice(0, session.messages.length - keep);
+        const transcript = older
+            .filter((message) => message.role === "user" || message.role === "assistant")
+            .map((message) => `${message.role === "user" ? "User" : "Assistant"}: ${message.content}`)
+            .join("\n");
+
+        const prompt = `Update the summary of a conversation with the new turns below.
+Keep facts, names, decisions and open questions. Be concise and do not add commentary.
+
+Current summary:
+${session.summary || "(none)"}
+
+New turns:
+${transcript}
+
+Updated summary:`;
+
+        const response = await (this.llmProvider as ILLMProvider).generate(prompt, { temperature: 0 });
+        session.summary = response.content.trim();
+        session.messages = session.messages.slice(session.messages.length - keep);
     }
 }
@@ -0,0 +1,196 @@
+import type { MetadataFieldCondition, MetadataFilter, MetadataValue } from "./interfaces";
+
+/**
+ * Supported field operators
+ */
+export const METADATA_FIELD_OPERATORS = ["$eq", "$ne", "$in", "$nin", "$gt", "$gte", "$lt", "$lte", "$exists"] as const;
+
+export type MetadataFieldOperator = (typeof METADATA_FIELD_OPERATORS)[number];
+
+/**
+ * Field names may contain letters, digits, underscores, hyphens and dots (for nested fields)
+ */
+const FIELD_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_.-]*$/;
+
+/**
+ * Invalid metadata filter error
+ */
+export class MetadataFilterError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "MetadataFilterError";
+    }
+}
+
+/**
+ * Field condition with shorthand equality expanded
+ */
+export type NormalizedFieldCondition = Partial<Record<MetadataFieldOperator, MetadataValue | MetadataValue[] | boolean>>;
+
+/**
+ * Validate an untrusted filter (e.g. from a request body)
+ * @throws {MetadataFilterError} If the filter is malformed
+ */
+export function validateMetadataFilter(filter: unknown, path = "filter"): MetadataFilter {
+    if (!isPlainObject(filter)) {
+        throw new MetadataFilterError(`${path} must be an object`);
+    }
+
+    for (const [key, value] of Object.entries(filter)) {
+        if (key === "$and" || key === "$or") {
+            if (!Array.isArray(value) || value.length === 0) {
+                throw new MetadataFilterError(`${path}.${key} must be a non-empty array`);
+            }
+            value.forEach((child, index) => validateMetadataFilter(child, `${path}.${key}[${index}]`));
+            continue;
+        }
+
+        if (key.startsWith("$")) {
+            throw new MetadataFilterError(`Unknown logical operator ${key} in ${path}`);
+        }
+        if (!FIELD_NAME_PATTERN.test(key)) {
+            throw new MetadataFilterError(`Invalid field name "${key}" in ${path}`);
+        }
+        validateFieldCondition(value, `${path}.${key}`);
+    }
+
+    return filter as MetadataFilter;
+}
+
+function validateFieldCondition(condition: unknown, path: string): void {
+    if (isMetadataValue(condition)) return;
+
+    if (!isPlainObject(condition) || Object.keys(condition).length === 0) {
+        throw new MetadataFilterError(`${path} must be a value or an operator object`);
+    }
+
+    for (const [operator, operand] of Object.entries(condition)) {
+        switch (operator) {
+            case "$eq":
+            case "$ne":
+                if (!isMetadataValue(operand)) {
+                    throw new MetadataFilterError(`${path}.${operator} must be a string, number or boolean`);
+                }
+                break;
+            case "$in":
+            case "$nin":
+                if (!Array.isArray(operand) || !operand.every(isMetadataValue)) {
+                    throw new MetadataFilterError(`${path}.${operator} must be an array of values`);
+                }
+                break;
+            case "$gt":
+            case "$gte":
+            case "$lt":
+            case "$lte":
+                if (typeof operand !== "number" && typeof operand !== "string") {
+                    throw new MetadataFilterError(`${path}.${operator} must be a number or string`);
+                }
+                break;
+            case "$exists":
+                if (typeof operand !== "boolean") {
+                    throw new MetadataFilterError(`${path}.$exists must be a boolean`);
+                }
+                break;
+            default:
+                throw new MetadataFilterError(`Unknown operator ${operator} in ${path}`);
+        }
+    }
+}
+
+/**
+ * Expand shorthand equality into an operator object
+ */
+export function normalizeFieldCondition(condition: MetadataFieldCondition): NormalizedFieldCondition {
+    return isMetadataValue(condition) ? { $eq: condition } : condition;
+}
+
+/**
+ * Split a filter into its field conditions and logical groups
+ */
+export function getFilterParts(filter: MetadataFilter): {
+    fields: Array<[field: string, condition: NormalizedFieldCondition]>;
+    and: MetadataFilter[];
+    or: MetadataFilter[];
+} {
+    const fields: Array<[string, NormalizedFieldCondition]> = [];
+    for (const [key, value] of Object.entries(filter)) {
+        if (key === "$and" || key === "$or" || value === undefined) continue;
+        fields.push([key, normalizeFieldCondition(value as MetadataFieldCondition)]);
+    }
+    return { fields, and: filter.$and ?? [], or: filter.$or ?? [] };
+}
+
+/**
+ * Evaluate a filter against chunk metadata
+ * Dotted field names address nested objects
+ */
+export function matchesMetadataFilter(metadata: Record<string, unknown>, filter: MetadataFilter): boolean {
+    const { fields, and, or } = getFilterParts(filter);
+
+    return fields.every(([field, condition]) => matchesCondition(getField(metadata, field), condition))
+        && and.every((child) => matchesMetadataFilter(metadata, child))
+        && (or.length === 0 || or.some((child) => matchesMetadataFilter(metadata, child)));
+}
+
+function matchesCondition(value: unknown, condition: NormalizedFieldCondition): boolean {
+    return Object.entries(condition).every(([operator, operand]) => {
+        switch (operator as MetadataFieldOperator) {
+            case "$eq":
+                return equals(value, operand);
+            case "$ne":
+                return !equals(value, operand);
+            case "$in":
+                return (operand as MetadataValue[]).some((candidate) => equals(value, candidate));
+            case "$nin":
+                return !(operand as MetadataValue[]).some((candidate) => equals(value, candidate));
+            case "$gt":
+                return compare(value, operand) > 0;
+            case "$gte":
+                return compare(value, operand) >= 0;
+            case "$lt":
+                return compare(value, operand) < 0;
+            case "$lte":
+                return compare(value, operand) <= 0;
+            case "$exists":
+                return (value !== undefined && value !== null) === operand;
+            default:
+                return false;
+        }
+    });
+}
+
+/**
+ * Array fields match when any element matches, as in most vector databases
+ */
+function equals(value: unknown, operand: unknown): boolean {
+    return Array.isArray(value) ? value.includes(operand) : value === operand;
+}
+
+/**
+ * Compare values of the same type; mismatched types never satisfy a range
+ */
+function compare(value: unknown, operand: unknown): number {
+    if (typeof value !== typeof operand || (typeof value !== "number" && typeof value !== "string")) {
+        return Number.NaN;
+    }
+    return value < (operand as typeof value) ? -1 : value > (operand as typeof value) ? 1 : 0;
+}
+
+function getField(metadata: Record<string, unknown>, field: string): unknown {
+    if (field in metadata) return metadata[field];
+
+    let current: unknown = metadata;
+    for (const part of field.split(".")) {
+        if (!isPlainObject(current)) return undefined;
+        current = current[part];
+    }
+    return current;
+}
+
+function isMetadataValue(value: unknown): value is MetadataValue {
+    return typeof value === "string" || typeof value === "number" || typeof value === "boolean";
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,64 @@
+/**
+ * Position picked by maximal marginal relevance with its score
+ */
+export interface MMRSelection {
+    index: number;
+    /** Relevance of the pick, capped by the previous pick's score so scores follow the selection order */
+    score: number;
+}
+
+/**
+ * Cosine similarity of two vectors
+ */
+export function cosineSimilarity(vecA: number[], vecB: number[]): number {
+    let dotProduct = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < vecA.length; i++) {
+        const a = vecA[i] ?? 0;
+        const b = vecB[i] ?? 0;
+        dotProduct += a * b;
+        normA += a * a;
+        normB += b * b;
+    }
+    return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB) || 1);
+}
+
+/**
+ * Pick up to `k` items that are relevant but not similar to the items already picked
+ * Each step maximizes `lambda * relevance - (1 - lambda) * max similarity to the picks`
+ * Items without an embedding count as dissimilar to everything
+ */
+export function maximalMarginalRelevance(
+    relevance: number[],
+    embeddings: Array<number[] | undefined>,
+    k: number,
+    lambda: number,
+): MMRSelection[] {
+    const remaining = new Set(relevance.map((_, index) => index));
+    const selected: MMRSelection[] = [];
+    const limit = Math.min(k, relevance.length);
+
+    while (selected.length < limit) {
+        let best = -1;
+        let bestValue = Number.NEGATIVE_INFINITY;
+        for (const index of remaining) {
+            const embedding = embeddings[index];
+            const redundancy = selected.reduce((max, picked) => {
+                const other = embeddings[picked.index];
+                return embedding && other ? Math.max(max, cosineSimilarity(embedding, other)) : max;
+            }, 0);
+            const value = lambda * (relevance[index] ?? 0) - (1 - lambda) * redundancy;
+            if (value > bestValue) {
+                best = index;
+                bestValue = value;
+            }
+        }
+
+        remaining.delete(best);
+        const previous = selected[selected.length - 1]?.score ?? 1;
+        selected.push({ index: best, score: Math.min(relevance[best] ?? 0, previous) });
+    }
+
+    return selected;
+}
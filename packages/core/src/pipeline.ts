@@ -0,0 +1,150 @@
+import type {
+    ChatMessage,
+    InsufficientContextReport,
+    MetadataFilter,
+    QueryStep,
+    RAGContext,
+    RAGStreamEvent,
+    RetrievalReport,
+    RetrievedDocument,
+    TokenUsage,
+} from "./interfaces";
+
+/**
+ * Query pipeline stages, in execution order
+ */
+export const PIPELINE_STAGES = [
+    "history",
+    "transform",
+    "retrieve",
+    "expand",
+    "compress",
+    "buildContext",
+    "generate",
+    "verify",
+    "persist",
+] as const;
+
+export type PipelineStage = (typeof PIPELINE_STAGES)[number];
+
+/**
+ * Mutable state shared by the stages of a single query
+ */
+export interface PipelineContext {
+    /** Original user query */
+    readonly query: string;
+    /** Session used for conversation memory */
+    readonly sessionId?: string | undefined;
+    /** Metadata filter applied to retrieval */
+    readonly filter?: MetadataFilter | undefined;
+    readonly topK: number;
+    readonly temperature: number;
+    readonly scoreThreshold: number;
+    /** Whether the caller consumes a stream of events */
+    readonly streaming: boolean;
+    /** Whether decomposed sub-questions are answered step by step */
+    readonly multiHop: boolean;
+    /** Conversation history loaded for the session */
+    history: ChatMessage[];
+    /** Queries sent to the retriever */
+    searchQueries: string[];
+    /** Retrieved (and expanded or compressed) documents */
+    documents: RetrievedDocument[];
+    /** Diagnostics of each retrieval */
+    retrievalReports: RetrievalReport[];
+    /** Answered steps of a multi-hop query */
+    steps: QueryStep[];
+    /** Context the prompt is built from */
+    context?: RAGContext | undefined;
+    /** Messages sent to the LLM */
+    messages: ChatMessage[];
+    /** Generated answer */
+    answer: string;
+    /** Token usage summed over all generations */
+    usage?: TokenUsage | undefined;
+    /** Whether enough context was found to answer */
+    contextSufficient: boolean;
+    /** Where the candidates were lost when no context was found */
+    insufficientContext?: InsufficientContextReport | undefined;
+    /** Whether the answer is grounded in the context */
+    grounded: boolean;
+    /** Stop after the current stage */
+    halted: boolean;
+    /** Emit a progress event to streaming callers */
+    emit(event: RAGStreamEvent): void;
+}
+
+/**
+ * Stage hook
+ * Call `next` to run the default implementation, or skip it to replace the stage
+ */
+export type PipelineStageHook = (context: PipelineContext, next: () => Promise<void>) => Promise<void>;
+
+/**
+ * Hooks that replace or wrap pipeline stages
+ */
+export type PipelineHooks = { [K in PipelineStage]?: PipelineStageHook | undefined };
+
+/**
+ * Default stage implementations
+ */
+export type PipelineStages = Record<PipelineStage, (context: PipelineContext) => Promise<void>>;
+
+/**
+ * Run the pipeline stages in order, applying hooks
+ * `afterStage` runs between stages and may halt the pipeline
+ */
+export async function runPipeline(
+    context: PipelineContext,
+    stages: PipelineStages,
+    hooks: PipelineHooks,
+    afterStage?: (stage: PipelineStage, context: PipelineContext) => void,
+): Promise<void> {
+    for (const stage of PIPELINE_STAGES) {
+        const run = () => stages[stage](context);
+        const hook = hooks[stage];
+        await (hook ? hook(context, run) : run());
+
+        afterStage?.(stage, context);
+        if (context.halted) break;
+    }
+}
+
+/**
+ * Bridge events emitted by a running task into an async generator
+ */
+export async function* streamEvents<T>(
+    task: (emit: (event: RAGStreamEvent) => void) => Promise<T>,
+): AsyncGenerator<RAGStreamEvent, T, unknown> {
+    const queue: RAGStreamEvent[] = [];
+    let wake: (() => void) | undefined;
+    let finished = false;
+
+    const notify = () => {
+        const resolve = wake;
+        wake = undefined;
+        resolve?.();
+    };
+
+    const result = task((event) => {
+        queue.push(event);
+        notify();
+    }).finally(() => {
+        finished = true;
+        notify();
+    });
+    // Failures are rethrown once the queued events are drained
+    result.catch(() => undefined);
+
+    while (true) {
+        while (queue.length > 0) {
+            yield queue.shift() as RAGStreamEvent;
+        }
+        if (finished) break;
+        await new Promise<void>((resolve) => {
+            wake = resolve;
+        });
+    }
+
+    return await result;
+}
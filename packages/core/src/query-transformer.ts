@@ -5,6 +5,7 @@ import type { ILLMProvider } from "./interfaces";
  * Query transformation configuration
  */
 export interface QueryTransformerConfig {
+    condense?: boolean;
     rewrite?: boolean;
     expand?: boolean;
     decompose?: boolean;
@@ -36,6 +37,30 @@ Rewritten Query:`;
         return response.content.trim();
     }
 
+    /**
+     * Turn a follow-up question into a standalone question using the conversation history
+     */
+    async condense(query: string, history: string): Promise<string> {
+        const prompt = `Given the following conversation and a follow-up question, rephrase the follow-up question to be a standalone question that can be understood without the conversation.
+Resolve references such as "it", "that" or "the second one" to what they refer to in the conversation.
+If the question is already standalone, return it unchanged. Provide only the question.
+
+Conversation History:
+${history}
+
+Follow-up Question: "${query}"
+
+Standalone Question:`;
+
+        const response = await this.llmProvider.generate(prompt, {
+            temperature: 0,
+            maxTokens: 200
+        });
+
+        const condensed = response.content.trim().replace(/^"(.*)"$/s, "$1");
+        return condensed.length > 0 ? condensed : query;
+    }
+
     /**
      * Expand a query into multiple related queries
      */
@@ -2,29 +2,77 @@ import type { AgentConfig } from "@ragx/config";
 import { ContextBuilder } from "./context-builder";
 import { DocumentProcessor } from "./document-processor";
 import type {
+    ChatMessage,
+    ChunkIngestCounts,
+    ContextDropStage,
     Document,
+    DocumentChunk,
+    DocumentDetails,
+    DocumentIngestProgress,
+    DocumentInfo,
+    IDocumentManifest,
     IEmbeddingProvider,
     ILLMProvider,
+    IngestOptions,
+    IngestResult,
+    InsufficientContextReport,
     IRAGEngine,
     IVectorStore,
     LLMResponse,
+    MetadataFilter,
+    QueryOptions,
     RAGResponse,
+    RAGSource,
+    RAGStreamEvent,
+    RetrievalResult,
     RetrievedDocument,
-    ChatMessage,
+    RetrieveOptions,
+    IMemoryManager,
     IReranker,
+    ITokenizer,
     IToolRegistry,
 } from "./interfaces";
+import { fuseRankings } from "./fusion";
+import { LLMStreamAccumulator } from "./llm-stream";
+import { matchesMetadataFilter } from "./metadata-filter";
+import { createTokenizer, getPromptBudget } from "./tokenizer";
+import {
+    runPipeline,
+    streamEvents,
+    type PipelineContext,
+    type PipelineHooks,
+    type PipelineStages,
+} from "./pipeline";
 import { ToolRegistry } from "./tool-registry";
 import { QueryTransformer } from "./query-transformer";
 import { MemoryManager } from "./memory";
+import { createMemoryStore } from "./memory-store";
+import { createDocumentManifest } from "./document-manifest";
 import { Retriever } from "./retriever";
-import { MemoryDocumentStore } from "./document-store";
+import { createDocumentStore } from "./document-store";
 import { LLMCompressor, EmbeddingsCompressor } from "./compressor";
 import { Logger } from "./logger";
 import { RequestContext } from "./request-context";
 import { CostTracker } from "./cost-tracker";
 import type { IDocumentStore, ICompressor } from "./interfaces";
 
+/**
+ * Rounds of tool calls before the model has to answer without tools
+ */
+const MAX_TOOL_ITERATIONS = 5;
+
+/**
+ * Most recent history messages used to condense a follow-up question
+ */
+const CONDENSE_HISTORY_MESSAGES = 6;
+
+/**
+ * Ingestion defaults: documents processed in parallel, extra attempts per document and base retry delay
+ */
+const DEFAULT_INGEST_CONCURRENCY = 4;
+const DEFAULT_INGEST_RETRIES = 2;
+const INGEST_RETRY_DELAY_MS = 1000;
+
 /**
  * RAG Engine implementation
  * Main orchestrator for the RAG pipeline
@@ -36,8 +84,13 @@ export class RAGEngine implements IRAGEngine {
     private readonly queryTransformer: QueryTransformer;
     private readonly memoryManager: MemoryManager;
     private readonly docStore?: IDocumentStore;
+    private readonly manifest: IDocumentManifest;
     private readonly toolRegistry: IToolRegistry;
     private readonly compressor?: ICompressor;
+    private readonly tokenizer: ITokenizer;
+    private readonly maxContextTokens: number;
+    private readonly stages: PipelineStages;
+    private readonly hooks: PipelineHooks;
 
     constructor(
         private readonly config: AgentConfig,
@@ -46,16 +99,24 @@ export class RAGEngine implements IRAGEngine {
         vectorStore: IVectorStore,
         reranker?: IReranker,
         toolRegistry?: IToolRegistry,
+        hooks?: PipelineHooks,
     ) {
         this.toolRegistry = toolRegistry || new ToolRegistry();
-        this.documentProcessor = new DocumentProcessor({
-            maxTokens: 500,
-            overlap: 50,
-            minTokens: 100,
-        });
+        this.tokenizer = createTokenizer(config.model.tokenizer, config.model.model);
 
-        if (config.retrieval?.parentRetrieval) {
-            this.docStore = new MemoryDocumentStore();
+        // Leave room in the model window for the response
+        this.maxContextTokens = getPromptBudget(config.model.model, config.model.contextWindow, config.model.maxTokens);
+        const chunking = config.chunking;
+        this.documentProcessor = new DocumentProcessor({
+            ...(chunking?.maxTokens !== undefined ? { maxTokens: chunking.maxTokens } : {}),
+            ...(chunking?.overlap !== undefined ? { overlap: chunking.overlap } : {}),
+            ...(chunking?.minTokens !== undefined ? { minTokens: chunking.minTokens } : {}),
+            ...(chunking?.parentMaxTokens !== undefined ? { parentMaxTokens: chunking.parentMaxTokens } : {}),
+        }, this.tokenizer);
+
+        // Hierarchical chunks always resolve to their parent sections
+        if (config.retrieval?.parentRetrieval || chunking?.strategy === "hierarchical") {
+            this.docStore = createDocumentStore(config.name, config.documents?.store, config.vectorStore);
         }
 
         this.retriever = new Retriever(
@@ -63,24 +124,46 @@ export class RAGEngine implements IRAGEngine {
             embeddingProvider,
             reranker,
             config.retrieval,
-            this.docStore
+            this.docStore,
+            this.tokenizer,
         );
-        this.contextBuilder = new ContextBuilder();
+        this.manifest = createDocumentManifest(config.name, config.documents?.manifest, config.vectorStore);
+        this.contextBuilder = new ContextBuilder(undefined, this.tokenizer);
         this.queryTransformer = new QueryTransformer(llmProvider);
-        this.memoryManager = new MemoryManager(config.memory);
+        this.memoryManager = new MemoryManager(
+            config.memory,
+            createMemoryStore(config.name, config.memory?.store),
+            llmProvider,
+        );
 
         if (config.retrieval?.compression?.enabled) {
             const compression = config.retrieval.compression;
             if (compression.strategy === "llm") {
                 this.compressor = new LLMCompressor(this.llmProvider, {
                     maxTokensPerDoc: compression.maxTokensPerDoc,
+                    tokenizer: this.tokenizer,
                 });
             } else {
                 this.compressor = new EmbeddingsCompressor(this.embeddingProvider, {
                     maxTokensPerDoc: compression.maxTokensPerDoc,
+                    tokenizer: this.tokenizer,
                 });
             }
         }
+
+        this.stages = {
+            history: (ctx) => this.loadHistory(ctx),
+            transform: (ctx) => this.transformQuery(ctx),
+            retrieve: (ctx) => this.retrieveDocuments(ctx),
+            expand: (ctx) => this.expandDocuments(ctx),
+            compress: (ctx) => this.compressDocuments(ctx),
+            buildContext: (ctx) => this.buildContext(ctx),
+            generate: (ctx) => this.generateAnswer(ctx),
+            verify: (ctx) => this.verifyAnswer(ctx),
+            persist: (ctx) => this.persistExchange(ctx),
+        };
+        // Constructor hooks take precedence over hooks from the agent config
+        this.hooks = { ...config.pipeline, ...hooks };
     }
 
     /**
@@ -88,273 +171,425 @@ export class RAGEngine implements IRAGEngine {
      */
     async query(
         query: string,
-        options?: { topK?: number; temperature?: number; sessionId?: string },
+        options?: QueryOptions,
     ): Promise<RAGResponse> {
+        return RequestContext.run({ agentName: this.config.name }, () =>
+            this.execute(query, options, false, () => undefined),
+        );
+    }
+
+    /**
+     * Query with streaming response
+     */
+    async * queryStream(
+        query: string,
+        options?: QueryOptions,
+    ): AsyncGenerator<RAGStreamEvent, RAGResponse, unknown> {
+        return yield* streamEvents((emit) =>
+            RequestContext.run({ agentName: this.config.name }, () =>
+                this.execute(query, options, true, emit),
+            ),
+        );
+    }
+
+    /**
+     * Retrieve relevant chunks without generating an answer
+     * Runs the pipeline through query transformation, retrieval (with reranking) and compression
+     */
+    async retrieve(
+        query: string,
+        options?: RetrieveOptions,
+    ): Promise<RetrievalResult[]> {
         return RequestContext.run({ agentName: this.config.name }, async () => {
-            Logger.info(`Processing query: "${query}"`, { sessionId: options?.sessionId });
+            Logger.info(`Processing retrieval: "${query}"`);
 
-            const topK = options?.topK || this.config.retrieval?.topK || 5;
-            const temperature = options?.temperature || this.config.model.temperature || 0.7;
-            const scoreThreshold = this.config.retrieval?.scoreThreshold || 0.7;
-            const sessionId = options?.sessionId;
+            const context = this.createContext(query, options, false, false, () => undefined);
+            await runPipeline(context, this.stages, this.hooks, (stage, ctx) => {
+                if (stage === "compress") ctx.halted = true;
+            });
 
-            // Step 0: Get History
-            let history: ChatMessage[] = [];
-            if (sessionId) {
-                history = await this.memoryManager.getHistory(sessionId);
-            }
+            return context.documents.slice(0, context.topK).map((doc) => ({
+                id: doc.chunk.id,
+                documentId: doc.chunk.documentId,
+                content: doc.chunk.content,
+                source: doc.source,
+                score: doc.score,
+                metadata: doc.chunk.metadata,
+            }));
+        });
+    }
 
-            // Step 1: Query Transformation
-            let searchQueries = [query];
+    /**
+     * Run the query pipeline shared by query and queryStream
+     */
+    private async execute(
+        query: string,
+        options: QueryOptions | undefined,
+        streaming: boolean,
+        emit: (event: RAGStreamEvent) => void,
+    ): Promise<RAGResponse> {
+        Logger.info(`Processing ${streaming ? "streaming " : ""}query: "${query}"`, { sessionId: options?.sessionId });
 
-            if (this.config.queryTransformation?.rewrite) {
-                const rewritten = await this.queryTransformer.rewrite(query);
-                Logger.debug(`Rewritten query: "${rewritten}"`);
-                searchQueries = [rewritten];
-            }
+        const context = this.createContext(query, options, streaming, this.config.queryTransformation?.multiHop ?? false, emit);
 
-            if (this.config.queryTransformation?.expand) {
-                const expanded = await this.queryTransformer.expand(
-                    searchQueries[0] || query,
-                    this.config.queryTransformation.maxExpansions
-                );
-                Logger.debug(`Expanded into ${expanded.length} sub-queries`);
-                searchQueries = Array.from(new Set([...searchQueries, ...expanded]));
-            }
+        // Remember which stage emptied a non-empty document list
+        let documentCount = 0;
+        let emptiedBy: ContextDropStage | undefined;
 
-            if (this.config.queryTransformation?.decompose) {
-                const decomposed = await this.queryTransformer.decompose(searchQueries[0] || query);
-                Logger.debug(`Decomposed into ${decomposed.length} steps`);
-                searchQueries = Array.from(new Set([...searchQueries, ...decomposed]));
+        await runPipeline(context, this.stages, this.hooks, (stage, ctx) => {
+            if (stage === "retrieve" || stage === "expand" || stage === "compress") {
+                if (documentCount > 0 && ctx.documents.length === 0) emptiedBy ??= stage;
+                documentCount = ctx.documents.length;
             }
+            if (stage !== "compress") return;
+
+            // Nothing to answer from, so skip generation
+            if (ctx.documents.length === 0) {
+                ctx.insufficientContext = this.diagnoseContext(ctx, emptiedBy);
+                Logger.warn(`Insufficient context found for query (stage: ${ctx.insufficientContext.stage})`, {
+                    candidates: ctx.insufficientContext.candidates,
+                    thresholds: ctx.insufficientContext.thresholds,
+                });
+                ctx.answer = "INSUFFICIENT_CONTEXT";
+                ctx.contextSufficient = false;
+                ctx.halted = true;
+                ctx.emit({ type: "retrieval", sources: [] });
+                ctx.emit({ type: "token", text: ctx.answer });
+                return;
+            }
+            ctx.emit({ type: "retrieval", sources: this.toSources(ctx.documents) });
+        });
 
-            // Step 2: Retrieve relevant documents
-            const allDocs: RetrievedDocument[] = [];
-            const seenIds = new Set<string>();
+        const usage = context.usage;
+        const cost = usage ? CostTracker.estimate(this.config.model.model, usage) : undefined;
+        if (cost) {
+            Logger.info(`Query completed. Estimated cost: ${CostTracker.format(cost)}`);
+        }
 
-            const retrievalPromises = searchQueries.map(async (q) => {
-                let retrievalQuery = q;
-                if (this.config.queryTransformation?.hyde) {
-                    retrievalQuery = await this.queryTransformer.generateHypotheticalDocument(q);
+        return {
+            answer: context.answer,
+            sources: context.contextSufficient ? this.toSources(context.documents) : [],
+            contextSufficient: context.contextSufficient,
+            ...(context.insufficientContext ? { insufficientContext: context.insufficientContext } : {}),
+            ...(context.steps.length > 0
+                ? {
+                    steps: context.steps.map((step) => ({
+                        question: step.question,
+                        answer: step.answer,
+                        sources: this.toSources(step.documents),
+                    })),
                 }
-                return this.retriever.retrieve(retrievalQuery, topK, scoreThreshold);
-            });
-
-            const results = await Promise.all(retrievalPromises);
+                : {}),
+            usage,
+            cost,
+            traceId: RequestContext.getTraceId(),
+        };
+    }
 
-            for (const docList of results) {
-                for (const doc of docList) {
-                    if (!seenIds.has(doc.chunk.id)) {
-                        seenIds.add(doc.chunk.id);
-                        allDocs.push(doc);
-                    }
-                }
-            }
+    /**
+     * Initial pipeline state for a request
+     */
+    private createContext(
+        query: string,
+        options: (QueryOptions & RetrieveOptions) | undefined,
+        streaming: boolean,
+        multiHop: boolean,
+        emit: (event: RAGStreamEvent) => void,
+    ): PipelineContext {
+        return {
+            query,
+            sessionId: options?.sessionId,
+            filter: options?.filter,
+            topK: options?.topK || this.config.retrieval?.topK || 5,
+            temperature: options?.temperature ?? this.config.model.temperature ?? 0.7,
+            scoreThreshold: options?.scoreThreshold ?? (this.config.retrieval?.scoreThreshold || 0.7),
+            streaming,
+            multiHop,
+            history: [],
+            searchQueries: [query],
+            documents: [],
+            retrievalReports: [],
+            steps: [],
+            messages: [],
+            answer: "",
+            contextSufficient: true,
+            grounded: true,
+            halted: false,
+            emit,
+        };
+    }
 
-            Logger.debug(`Retrieved ${allDocs.length} unique initial documents`);
-            let retrievedDocs = allDocs.sort((a, b) => b.score - a.score).slice(0, topK * 2);
+    /**
+     * Load conversation history for the session
+     */
+    private async loadHistory(ctx: PipelineContext): Promise<void> {
+        if (ctx.sessionId) {
+            ctx.history = await this.memoryManager.getHistory(ctx.sessionId);
+        }
+    }
 
-            // Step 2.1: Contextual Compression
-            if (this.compressor) {
-                Logger.info("Applying contextual compression");
-                retrievedDocs = await this.compressor.compress(query, retrievedDocs);
-            }
+    /**
+     * Condense, rewrite, expand and decompose the query into search queries
+     */
+    private async transformQuery(ctx: PipelineContext): Promise<void> {
+        const transformation = this.config.queryTransformation;
+        const history = this.formatHistory(ctx.history);
+        let query = ctx.query;
+
+        // Rewriting already resolves the follow-up against the history
+        if (transformation?.rewrite) {
+            query = await this.queryTransformer.rewrite(ctx.query, history || undefined);
+            Logger.debug(`Rewritten query: "${query}"`);
+        } else if (history && transformation?.condense) {
+            query = await this.queryTransformer.condense(ctx.query, history);
+            Logger.debug(`Condensed follow-up: "${query}"`);
+        }
+        let searchQueries = [query];
 
-            // Step 3: Filter & Check context
-            if (retrievedDocs.length === 0) {
-                Logger.warn("Insufficient context found for query");
-                return {
-                    answer: "INSUFFICIENT_CONTEXT",
-                    sources: [],
-                    contextSufficient: false,
-                };
+        // Multi-hop queries retrieve and answer each sub-question in turn
+        if (ctx.multiHop) {
+            const steps = (await this.queryTransformer.decompose(query)).slice(0, transformation?.maxSteps ?? 4);
+            if (steps.length > 1) {
+                Logger.debug(`Answering in ${steps.length} steps`);
+                ctx.searchQueries = steps;
+                return;
             }
+        }
 
-            // Step 4: Build context
-            const maxContextTokens = 4000;
-            const context = this.contextBuilder.build(query, retrievedDocs, maxContextTokens, history);
-            const messages = this.contextBuilder.buildMessages(context);
-
-            // Step 5: Execution Loop (Tool Calling)
-            let iteration = 0;
-            const maxIterations = 5;
-            let lastResponse: LLMResponse | undefined;
-
-            while (iteration < maxIterations) {
-                Logger.debug(`LLM Generation iteration ${iteration + 1}`);
-                lastResponse = await this.llmProvider.generate(messages, {
-                    temperature,
-                    tools: this.toolRegistry.getAllTools(),
-                    ...(this.config.model.maxTokens ? { maxTokens: this.config.model.maxTokens } : {}),
-                });
-
-                if (!lastResponse.toolCalls || lastResponse.toolCalls.length === 0) {
-                    break;
-                }
-
-                Logger.info(`Executing ${lastResponse.toolCalls.length} tools`);
-                messages.push({
-                    role: "assistant",
-                    content: lastResponse.content,
-                    timestamp: new Date(),
-                    toolCalls: lastResponse.toolCalls,
-                });
+        if (transformation?.expand || this.config.retrieval?.multiQuery) {
+            const expanded = await this.queryTransformer.expand(query, transformation?.maxExpansions);
+            Logger.debug(`Expanded into ${expanded.length} sub-queries`);
+            searchQueries = Array.from(new Set([...searchQueries, ...expanded]));
+        }
 
-                const toolPromises = lastResponse.toolCalls.map(async (call) => {
-                    Logger.debug(`Tool call: ${call.name}`, { args: call.arguments });
-                    const result = await this.toolRegistry.executeTool(call.name, call.arguments);
-                    return {
-                        role: "tool" as const,
-                        content: typeof result === "string" ? result : JSON.stringify(result),
-                        timestamp: new Date(),
-                        toolCallId: call.id,
-                    };
-                });
+        if (transformation?.decompose || (transformation?.multiHop && !ctx.multiHop)) {
+            const decomposed = await this.queryTransformer.decompose(query);
+            Logger.debug(`Decomposed into ${decomposed.length} steps`);
+            searchQueries = Array.from(new Set([...searchQueries, ...decomposed]));
+        }
 
-                const toolResults = await Promise.all(toolPromises);
-                messages.push(...toolResults);
-                iteration++;
-            }
+        ctx.searchQueries = searchQueries;
+    }
 
-            if (!lastResponse) throw new Error("Failed to generate response");
+    /**
+     * Recent user and assistant turns as text for query condensation
+     */
+    private formatHistory(history: ChatMessage[]): string {
+        return history
+            .filter((msg) => (msg.role === "user" || msg.role === "assistant") && msg.content.trim().length > 0)
+            .slice(-CONDENSE_HISTORY_MESSAGES)
+            .map((msg) => `${msg.role === "user" ? "User" : "Assistant"}: ${msg.content}`)
+            .join("\n");
+    }
 
-            // Step 6: Verify grounding
-            const isGrounded = this.contextBuilder.verifyGrounding(lastResponse.content, context);
-            if (!isGrounded) Logger.warn("Response may not be fully grounded in context");
+    /**
+     * Retrieve documents for every search query and fuse the rankings
+     */
+    private async retrieveDocuments(ctx: PipelineContext): Promise<void> {
+        if (ctx.multiHop && ctx.searchQueries.length > 1) {
+            return this.answerSteps(ctx);
+        }
 
-            // Step 7: Save to memory
-            if (sessionId) {
-                await this.memoryManager.addMessage(sessionId, {
-                    role: "user",
-                    content: query,
-                    timestamp: new Date(),
-                });
-                await this.memoryManager.addMessage(sessionId, {
-                    role: "assistant",
-                    content: lastResponse.content,
-                    timestamp: new Date(),
-                });
-            }
+        const results = await Promise.all(ctx.searchQueries.map((q) => this.retrieveFor(ctx, q)));
 
-            const usage = lastResponse.usage;
-            const cost = usage ? CostTracker.estimate(this.config.model.model, usage) : undefined;
+        // Chunks found by several sub-queries rank above those only one of them found
+        const ranked = results.length > 1
+            ? fuseRankings(results, { k: this.config.retrieval?.fusion?.k })
+            : results[0] ?? [];
 
-            if (cost) {
-                Logger.info(`Query completed. Estimated cost: ${CostTracker.format(cost)}`);
+        // Identical content found through different chunks is kept once
+        const allDocs: RetrievedDocument[] = [];
+        const seenKeys = new Set<string>();
+        for (const doc of ranked) {
+            const key = doc.chunk.checksum || doc.chunk.id;
+            if (!seenKeys.has(key)) {
+                seenKeys.add(key);
+                allDocs.push(doc);
             }
+        }
 
-            return {
-                answer: lastResponse.content,
-                sources: retrievedDocs.map((doc) => ({
-                    content: doc.chunk.content,
-                    source: doc.source,
-                    score: doc.score,
-                })),
-                contextSufficient: true,
-                usage,
-                cost,
-            };
-        });
+        Logger.debug(`Retrieved ${allDocs.length} unique initial documents`);
+        ctx.documents = allDocs.slice(0, ctx.topK * 2);
     }
 
     /**
-     * Query with streaming response
+     * Retrieve documents for one search query, through a hypothetical answer when HyDE is on
      */
-    async * queryStream(
-        query: string,
-        options?: { topK?: number; temperature?: number; sessionId?: string },
-    ): AsyncGenerator<string, RAGResponse, unknown> {
-        const traceId = crypto.randomUUID();
-        const startTime = Date.now();
-        const context = { agentName: this.config.name, traceId, startTime };
-
-        const gen = this._queryStreamInternal(query, options);
-
-        while (true) {
-            const { value, done } = await RequestContext.run(context, () => gen.next());
-            if (done) return value as RAGResponse;
-            yield value as string;
+    private async retrieveFor(ctx: PipelineContext, query: string): Promise<RetrievedDocument[]> {
+        let retrievalQuery = query;
+        if (this.config.queryTransformation?.hyde) {
+            retrievalQuery = await this.queryTransformer.generateHypotheticalDocument(query);
         }
+        return this.retriever.retrieve(retrievalQuery, ctx.topK, ctx.scoreThreshold, ctx.filter, (report) => {
+            ctx.retrievalReports.push(report);
+        });
     }
 
-    private async * _queryStreamInternal(
-        query: string,
-        options?: { topK?: number; temperature?: number; sessionId?: string },
-    ): AsyncGenerator<string, RAGResponse, unknown> {
-        Logger.info(`Processing streaming query: "${query}"`, { sessionId: options?.sessionId });
-
-        const topK = options?.topK || this.config.retrieval?.topK || 5;
-        const temperature = options?.temperature || this.config.model.temperature || 0.7;
-        const scoreThreshold = this.config.retrieval?.scoreThreshold || 0.7;
-        const sessionId = options?.sessionId;
-
-        let history: ChatMessage[] = [];
-        if (sessionId) {
-            history = await this.memoryManager.getHistory(sessionId);
+    /**
+     * Retrieve and answer each sub-question in turn
+     * Later steps see the earlier answers, both to resolve their search query and to answer
+     */
+    private async answerSteps(ctx: PipelineContext): Promise<void> {
+        for (const question of ctx.searchQueries) {
+            const findings = ctx.steps.map((step) => `User: ${step.question}\nAssistant: ${step.answer}`).join("\n");
+            const searchQuery = findings ? await this.queryTransformer.condense(question, findings) : question;
+
+            const documents = await this.retrieveFor(ctx, searchQuery);
+            const answer = documents.length > 0 ? await this.answerStep(ctx, question, documents) : "INSUFFICIENT_CONTEXT";
+            Logger.debug(`Step ${ctx.steps.length + 1} answered from ${documents.length} documents`);
+
+            ctx.steps.push({ question, answer, documents });
+            ctx.emit({ type: "step", question, answer, sources: this.toSources(documents) });
         }
 
-        let searchQueries = [query];
-        if (this.config.queryTransformation?.rewrite) {
-            const rewritten = await this.queryTransformer.rewrite(query);
-            searchQueries = [rewritten];
+        // Take the steps' evidence in turns so every step is represented within the context budget
+        const documents: RetrievedDocument[] = [];
+        const seenKeys = new Set<string>();
+        const longest = Math.max(...ctx.steps.map((step) => step.documents.length));
+        for (let rank = 0; rank < longest; rank++) {
+            for (const step of ctx.steps) {
+                const doc = step.documents[rank];
+                const key = doc ? doc.chunk.checksum || doc.chunk.id : undefined;
+                if (doc && key && !seenKeys.has(key)) {
+                    seenKeys.add(key);
+                    documents.push(doc);
+                }
+            }
         }
+        ctx.documents = documents;
+    }
 
-        const allDocs: RetrievedDocument[] = [];
-        const seenIds = new Set<string>();
+    /**
+     * Generate the intermediate answer of a step from its documents and the earlier findings
+     */
+    private async answerStep(ctx: PipelineContext, question: string, documents: RetrievedDocument[]): Promise<string> {
+        const findings = ctx.steps.length > 0 ? this.contextBuilder.buildFindingsMessage(ctx.steps) : undefined;
+        const reserved = findings ? this.tokenizer.countTokens(findings.content) : 0;
 
-        const retrievalPromises = searchQueries.map(async (q) => {
-            let retrievalQuery = q;
-            if (this.config.queryTransformation?.hyde) {
-                retrievalQuery = await this.queryTransformer.generateHypotheticalDocument(q);
-            }
-            return this.retriever.retrieve(retrievalQuery, topK, scoreThreshold);
+        const context = this.contextBuilder.build(question, documents, this.maxContextTokens - reserved);
+        const messages = this.contextBuilder.buildMessages(context);
+        if (findings) messages.splice(messages.length - 1, 0, findings);
+
+        const response = await this.llmProvider.generate(messages, {
+            temperature: 0,
+            ...(this.config.model.maxTokens ? { maxTokens: this.config.model.maxTokens } : {}),
         });
+        this.addUsage(ctx, response);
+        return response.content.trim();
+    }
 
-        const results = await Promise.all(retrievalPromises);
-        for (const docList of results) {
-            for (const doc of docList) {
-                if (!seenIds.has(doc.chunk.id)) {
-                    seenIds.add(doc.chunk.id);
-                    allDocs.push(doc);
-                }
-            }
+    /**
+     * Work out which step left a query without documents
+     * A stage that emptied the list wins; otherwise retrieval found nothing or thresholded everything away
+     */
+    private diagnoseContext(ctx: PipelineContext, emptiedBy?: ContextDropStage): InsufficientContextReport {
+        const reports = ctx.retrievalReports;
+        const candidates = reports.reduce((sum, report) => sum + report.candidates, 0);
+        const retained = reports.reduce((sum, report) => sum + (report.thresholds[report.thresholds.length - 1]?.retained ?? 0), 0);
+
+        let stage: ContextDropStage;
+        if (emptiedBy) {
+            stage = emptiedBy;
+        } else if (candidates === 0) {
+            stage = "search";
+        } else if (retained === 0) {
+            stage = "threshold";
+        } else {
+            // Retrieval kept candidates but the stage's hook returned none
+            stage = "retrieve";
         }
 
-        let retrievedDocs = allDocs.sort((a, b) => b.score - a.score).slice(0, topK * 2);
-        if (this.compressor) {
-            retrievedDocs = await this.compressor.compress(query, retrievedDocs);
-        }
+        return {
+            stage,
+            candidates,
+            thresholds: stage === "threshold"
+                ? reports.flatMap((report) => report.thresholds).filter((result) => result.candidates > 0 && result.retained === 0)
+                : [],
+        };
+    }
 
-        if (retrievedDocs.length === 0) {
-            yield "INSUFFICIENT_CONTEXT";
-            return { answer: "INSUFFICIENT_CONTEXT", sources: [], contextSufficient: false };
+    /**
+     * Widen hits with their neighboring chunks when configured
+     * The window narrows until the expanded documents fit the context budget
+     */
+    private async expandDocuments(ctx: PipelineContext): Promise<void> {
+        const radius = this.config.retrieval?.neighborChunks ?? 0;
+        if (radius === 0 || ctx.documents.length === 0) return;
+        if (this.docStore) {
+            Logger.debug("Skipping neighbor expansion; hits already resolve to their parents");
+            return;
         }
 
-        const maxContextTokens = 4000;
-        const context = this.contextBuilder.build(query, retrievedDocs, maxContextTokens, history);
-        const messages = this.contextBuilder.buildMessages(context);
+        // Only documents that make it into the context are widened
+        const budget = this.contextBuilder.documentBudget(ctx.query, this.maxContextTokens, ctx.history);
+        const included = this.contextBuilder.selectDocuments(ctx.documents, budget);
+
+        for (let window = radius; window > 0; window--) {
+            const expanded = await this.retriever.expandNeighbors(included, window);
+            const tokens = expanded.reduce((sum, doc) => sum + this.contextBuilder.documentTokens(doc), 0);
+            if (tokens <= budget) {
+                Logger.debug(`Expanded ${included.length} hits with ${window} neighboring chunks each`);
+                ctx.documents = expanded;
+                return;
+            }
+        }
+    }
 
-        let iteration = 0;
-        let lastResponse: LLMResponse | undefined;
+    /**
+     * Apply contextual compression when configured
+     */
+    private async compressDocuments(ctx: PipelineContext): Promise<void> {
+        if (this.compressor && ctx.documents.length > 0) {
+            Logger.info("Applying contextual compression");
+            ctx.documents = await this.compressor.compress(ctx.query, ctx.documents);
+        }
+    }
 
-        while (iteration < 5) {
-            lastResponse = await this.llmProvider.generate(messages, {
-                temperature,
-                tools: this.toolRegistry.getAllTools(),
-                ...(this.config.model.maxTokens ? { maxTokens: this.config.model.maxTokens } : {}),
-            });
+    /**
+     * Build the prompt context and messages
+     */
+    private async buildContext(ctx: PipelineContext): Promise<void> {
+        // Multi-hop answers are synthesized from the step answers, which take part of the budget
+        const reserved = ctx.steps.length > 0
+            ? this.tokenizer.countTokens(this.contextBuilder.buildFindingsMessage(ctx.steps).content)
+            : 0;
+
+        ctx.context = this.contextBuilder.build(ctx.query, ctx.documents, this.maxContextTokens - reserved, ctx.history);
+        ctx.messages = this.contextBuilder.buildMessages(ctx.context);
+        if (ctx.steps.length > 0) {
+            ctx.messages.splice(ctx.messages.length - 1, 0, this.contextBuilder.buildFindingsMessage(ctx.steps, ctx.context.documents));
+        }
+    }
 
-            if (!lastResponse.toolCalls || lastResponse.toolCalls.length === 0) break;
+    /**
+     * Generate the answer, executing requested tools until the model stops calling them
+     */
+    private async generateAnswer(ctx: PipelineContext): Promise<void> {
+        for (let iteration = 0; iteration < MAX_TOOL_ITERATIONS; iteration++) {
+            Logger.debug(`LLM Generation iteration ${iteration + 1}`);
+            const response = await this.complete(ctx, true);
+            this.addUsage(ctx, response);
+
+            // Only the final turn is the answer, whether or not the earlier turns were streamed
+            if (!response.toolCalls || response.toolCalls.length === 0) {
+                ctx.answer = response.content;
+                return;
+            }
 
-            Logger.info(`Executing ${lastResponse.toolCalls.length} tools`);
-            messages.push({
+            Logger.info(`Executing ${response.toolCalls.length} tools`);
+            ctx.messages.push({
                 role: "assistant",
-                content: lastResponse.content,
+                content: response.content,
                 timestamp: new Date(),
-                toolCalls: lastResponse.toolCalls,
+                toolCalls: response.toolCalls,
             });
 
-            const toolResults = await Promise.all(lastResponse.toolCalls.map(async (call) => {
+            for (const call of response.toolCalls) {
+                ctx.emit({ type: "tool_call_started", id: call.id, name: call.name, arguments: call.arguments });
+            }
+
+            const toolResults = await Promise.all(response.toolCalls.map(async (call) => {
+                Logger.debug(`Tool call: ${call.name}`, { args: call.arguments });
                 const result = await this.toolRegistry.executeTool(call.name, call.arguments);
                 return {
                     role: "tool" as const,
@@ -363,57 +598,259 @@ export class RAGEngine implements IRAGEngine {
                     toolCallId: call.id,
                 };
             }));
-            messages.push(...toolResults);
-            iteration++;
+            ctx.messages.push(...toolResults);
+
+            for (const [index, call] of response.toolCalls.entries()) {
+                ctx.emit({ type: "tool_call_finished", id: call.id, name: call.name, result: toolResults[index]?.content ?? "" });
+            }
         }
 
-        if (!lastResponse) throw new Error("Failed to generate response");
+        // Still asking for tools after the last round, so answer from the tool results gathered so far
+        Logger.warn(`Tool call limit of ${MAX_TOOL_ITERATIONS} rounds reached, generating the answer without tools`);
+        const response = await this.complete(ctx, false);
+        this.addUsage(ctx, response);
+        ctx.answer = response.content;
+    }
 
-        let fullResponse = "";
-        for await (const chunk of this.llmProvider.generateStream(messages, {
-            temperature,
+    /**
+     * Add a generation's token usage to the request total
+     */
+    private addUsage(ctx: PipelineContext, response: LLMResponse): void {
+        if (!response.usage) return;
+        ctx.usage = {
+            promptTokens: (ctx.usage?.promptTokens ?? 0) + response.usage.promptTokens,
+            completionTokens: (ctx.usage?.completionTokens ?? 0) + response.usage.completionTokens,
+            totalTokens: (ctx.usage?.totalTokens ?? 0) + response.usage.totalTokens,
+        };
+    }
+
+    /**
+     * Run a single generation, streaming text deltas when the caller streams
+     * With tools offered, a turn's text is held back until the turn ends without tool calls,
+     * so only the final answer is streamed
+     */
+    private async complete(ctx: PipelineContext, useTools: boolean): Promise<LLMResponse> {
+        const tools = useTools ? this.toolRegistry.getAllTools() : [];
+        const options = {
+            temperature: ctx.temperature,
+            ...(tools.length > 0 ? { tools } : {}),
             ...(this.config.model.maxTokens ? { maxTokens: this.config.model.maxTokens } : {}),
-        })) {
-            fullResponse += chunk;
-            yield chunk;
+        };
+
+        if (!ctx.streaming) {
+            return this.llmProvider.generate(ctx.messages, options);
+        }
+
+        const accumulator = new LLMStreamAccumulator();
+        const held: string[] = [];
+        for await (const event of this.llmProvider.generateStream(ctx.messages, options)) {
+            accumulator.push(event);
+            if (event.type !== "text_delta") continue;
+            if (tools.length === 0) {
+                ctx.emit({ type: "token", text: event.text });
+            } else {
+                held.push(event.text);
+            }
         }
 
-        const isGrounded = this.contextBuilder.verifyGrounding(fullResponse, context);
-        if (sessionId) {
-            await this.memoryManager.addMessage(sessionId, { role: "user", content: query, timestamp: new Date() });
-            await this.memoryManager.addMessage(sessionId, { role: "assistant", content: fullResponse, timestamp: new Date() });
+        const response = accumulator.toResponse(this.config.model.model);
+        if (held.length > 0 && (!response.toolCalls || response.toolCalls.length === 0)) {
+            ctx.emit({ type: "token", text: held.join("") });
         }
+        return response;
+    }
 
-        const usage = lastResponse.usage;
-        const cost = usage ? CostTracker.estimate(this.config.model.model, usage) : undefined;
+    /**
+     * Check that the answer is grounded in the retrieved context
+     */
+    private async verifyAnswer(ctx: PipelineContext): Promise<void> {
+        if (!ctx.context) return;
+
+        ctx.grounded = this.contextBuilder.verifyGrounding(ctx.answer, ctx.context);
+        if (!ctx.grounded) Logger.warn("Response may not be fully grounded in context");
+    }
+
+    /**
+     * Save the exchange to conversation memory
+     */
+    private async persistExchange(ctx: PipelineContext): Promise<void> {
+        if (!ctx.sessionId) return;
+
+        await this.memoryManager.addMessages(ctx.sessionId, [
+            {
+                role: "user",
+                content: ctx.query,
+                timestamp: new Date(),
+            },
+            {
+                role: "assistant",
+                content: ctx.answer,
+                timestamp: new Date(),
+            },
+        ]);
+    }
+
+    /**
+     * Ingest documents
+     * Only new and changed chunks are embedded; chunks the documents no longer produce are removed
+     * Documents are processed concurrently and retried with backoff when they fail
+     */
+    async ingest(documents: Document[], options?: IngestOptions): Promise<IngestResult> {
+        const result: IngestResult = {
+            processed: 0,
+            failed: 0,
+            chunks: 0,
+            added: 0,
+            updated: 0,
+            skipped: 0,
+            removed: 0,
+            errors: [],
+        };
+        const retries = Math.max(options?.retries ?? DEFAULT_INGEST_RETRIES, 0);
+        const concurrency = Math.max(options?.concurrency ?? DEFAULT_INGEST_CONCURRENCY, 1);
+
+        // Chunks already stored for these documents
+        const stored = new Map<string, Map<string, DocumentChunk>>();
+        for (const chunk of await this.retriever.listChunks(documents.map((document) => document.id))) {
+            let chunks = stored.get(chunk.documentId);
+            if (!chunks) {
+                chunks = new Map();
+                stored.set(chunk.documentId, chunks);
+            }
+            chunks.set(chunk.id, chunk);
+        }
+
+        // Manifest entries are collected and written once for the whole batch
+        const manifest = new Map((await this.manifest.list()).map((entry) => [entry.id, entry]));
+        const entries: DocumentInfo[] = [];
+
+        const ingestWithRetry = async (document: Document): Promise<void> => {
+            const progress: DocumentIngestProgress = { documentId: document.id, source: document.source, status: "processing", attempts: 0 };
+
+            while (true) {
+                progress.attempts++;
+                options?.onProgress?.({ ...progress, status: "processing" });
+                try {
+                    const counts = await this.ingestDocument(document, stored.get(document.id) ?? new Map());
+                    result.processed++;
+                    result.chunks += counts.chunks;
+                    result.added += counts.added;
+                    result.updated += counts.updated;
+                    result.skipped += counts.skipped;
+                    result.removed += counts.removed;
+                    entries.push(this.toDocumentInfo(document, counts, manifest.get(document.id)));
+                    options?.onProgress?.({ ...progress, status: "completed", error: undefined, counts });
+                    return;
+                } catch (error) {
+                    progress.error = error instanceof Error ? error.message : String(error);
+                    if (progress.attempts > retries) {
+                        Logger.error(`Failed to ingest ${document.source}: ${progress.error}`);
+                        result.failed++;
+                        result.errors.push({ documentId: document.id, source: document.source, error: progress.error });
+                        options?.onProgress?.({ ...progress, status: "failed" });
+                        return;
+                    }
+
+                    Logger.warn(`Retrying ${document.source} after error: ${progress.error}`);
+                    await new Promise((resolve) => setTimeout(resolve, INGEST_RETRY_DELAY_MS * 2 ** (progress.attempts - 1)));
+                }
+            }
+        };
+
+        // Bounded pool of workers pulling from the batch
+        let next = 0;
+        const worker = async () => {
+            while (next < documents.length) {
+                await ingestWithRetry(documents[next++] as Document);
+            }
+        };
+        await Promise.all(Array.from({ length: Math.min(concurrency, documents.length) }, worker));
+        await this.manifest.set(entries);
+
+        if (options?.prune) {
+            result.removed += await this.pruneDocuments(documents, options.prune);
+        }
+
+        const failed = result.failed > 0 ? `, ${result.failed} failed` : "";
+        Logger.info(
+            `Ingested ${result.processed} documents: ${result.added} added, ${result.updated} updated, ${result.skipped} skipped, ${result.removed} removed${failed}`,
+        );
+        return result;
+    }
+
+    /**
+     * Chunk and store a single document against its previously stored chunks
+     */
+    private async ingestDocument(document: Document, previous: Map<string, DocumentChunk>): Promise<ChunkIngestCounts> {
+        const strategy = this.config.chunking?.strategy ?? "fixed";
+        const { chunks, parents } = strategy === "hierarchical"
+            ? await this.documentProcessor.processHierarchical(document)
+            : { chunks: await this.documentProcessor.process(document, strategy), parents: [document] };
+        const changed = chunks.filter((chunk) => previous.get(chunk.id)?.checksum !== chunk.checksum);
+
+        if (changed.length > 0) {
+            const embeddings = await this.embeddingProvider.embed(changed.map((chunk) => chunk.content));
+            await this.retriever.addDocuments(changed, embeddings);
+        }
+
+        if (this.docStore) {
+            await this.docStore.add(parents);
+
+            // Parents the previous chunks pointed at that the document no longer produces
+            const parentIds = new Set(parents.map((parent) => parent.id));
+            const staleParents = new Set(Array.from(previous.values(), (chunk) => chunk.metadata.parentId ?? chunk.documentId));
+            await this.docStore.delete(Array.from(staleParents).filter((id) => !parentIds.has(id)));
+        }
 
+        const chunkIds = new Set(chunks.map((chunk) => chunk.id));
+        const stale = Array.from(previous.keys()).filter((id) => !chunkIds.has(id));
+        await this.retriever.deleteChunks(stale);
+
+        const updated = changed.filter((chunk) => previous.has(chunk.id)).length;
         return {
-            answer: fullResponse,
-            sources: retrievedDocs.map((doc) => ({
-                content: doc.chunk.content,
-                source: doc.source,
-                score: doc.score,
-            })),
-            contextSufficient: isGrounded,
-            usage,
-            cost,
+            chunks: chunks.length,
+            added: changed.length - updated,
+            updated,
+            skipped: chunks.length - changed.length,
+            removed: stale.length,
         };
     }
 
     /**
-     * Ingest documents
+     * Delete stored documents that are not part of the ingested batch
+     * Returns the number of chunks removed
      */
-    async ingest(documents: Document[]): Promise<{ processed: number; chunks: number }> {
-        let totalChunks = 0;
-        for (const document of documents) {
-            const chunks = await this.documentProcessor.process(document, "fixed");
-            const texts = chunks.map((chunk) => chunk.content);
-            const embeddings = await this.embeddingProvider.embed(texts);
-            if (this.docStore) await this.docStore.add([document]);
-            await this.retriever.addDocuments(chunks, embeddings);
-            totalChunks += chunks.length;
+    private async pruneDocuments(documents: Document[], scope: true | MetadataFilter): Promise<number> {
+        const keep = new Set(documents.map((document) => document.id));
+        const missing = new Map<string, number>();
+
+        for (const chunk of await this.retriever.listChunks()) {
+            if (keep.has(chunk.documentId)) continue;
+            if (scope !== true && !matchesMetadataFilter(chunk.metadata, scope)) continue;
+            missing.set(chunk.documentId, (missing.get(chunk.documentId) ?? 0) + 1);
         }
-        return { processed: documents.length, chunks: totalChunks };
+
+        if (missing.size === 0) return 0;
+
+        Logger.info(`Removing ${missing.size} documents missing from the batch`);
+        await this.deleteDocuments(Array.from(missing.keys()));
+        return Array.from(missing.values()).reduce((sum, count) => sum + count, 0);
+    }
+
+    /**
+     * Build the manifest entry of an ingested document
+     * The ingestion time is kept when nothing was re-embedded or removed
+     */
+    private toDocumentInfo(document: Document, counts: ChunkIngestCounts, existing: DocumentInfo | undefined): DocumentInfo {
+        const modified = counts.added + counts.updated + counts.removed > 0;
+        return {
+            id: document.id,
+            source: document.source,
+            checksum: this.documentProcessor.generateChecksum(document.content),
+            chunkCount: counts.chunks,
+            ingestedAt: existing && !modified ? existing.ingestedAt : new Date(),
+            metadata: document.metadata ?? {},
+        };
     }
 
     /**
@@ -421,5 +858,39 @@ export class RAGEngine implements IRAGEngine {
      */
     async deleteDocuments(documentIds: string[]): Promise<void> {
         await this.retriever.deleteDocuments(documentIds);
+        await this.manifest.delete(documentIds);
+    }
+
+    /**
+     * List ingested documents
+     */
+    async listDocuments(): Promise<DocumentInfo[]> {
+        return this.manifest.list();
+    }
+
+    /**
+     * Get an ingested document with its chunks
+     */
+    async getDocument(documentId: string): Promise<DocumentDetails | undefined> {
+        const document = await this.manifest.get(documentId);
+        if (!document) return undefined;
+
+        const chunks = await this.retriever.listChunks([documentId]);
+        return { ...document, chunks: chunks.sort((a, b) => a.position - b.position) };
+    }
+
+    /**
+     * Conversation memory used by this agent
+     */
+    getMemoryManager(): IMemoryManager {
+        return this.memoryManager;
+    }
+
+    private toSources(documents: RetrievedDocument[]): RAGSource[] {
+        return documents.map((doc) => ({
+            content: doc.chunk.content,
+            source: doc.source,
+            score: doc.score,
+        }));
     }
 }
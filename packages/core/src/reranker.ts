@@ -0,0 +1,255 @@
+import { createAnalyzer, type TextAnalyzer } from "./bm25";
+import type { DocumentChunk, IEmbeddingProvider, ILLMProvider, IReranker, RerankContext } from "./interfaces";
+import { cosineSimilarity, maximalMarginalRelevance } from "./mmr";
+
+/**
+ * Reranked position of a document with its relevance score in 0..1
+ */
+export interface RerankResult {
+    index: number;
+    score: number;
+}
+
+/**
+ * How the LLM judge sees the passages
+ * - pointwise: one call per passage
+ * - listwise: all passages in a single call
+ */
+export type LLMJudgeMode = "pointwise" | "listwise";
+
+export interface LLMJudgeRerankerOptions {
+    mode?: LLMJudgeMode | undefined;
+    /** Characters of each passage shown to the model (default 2000) */
+    maxPassageLength?: number | undefined;
+    /** Passages graded at once in pointwise mode (default 4) */
+    concurrency?: number | undefined;
+}
+
+/**
+ * Highest relevance grade the judge can give
+ */
+const MAX_GRADE = 10;
+
+/**
+ * Sort results by score and keep the top K
+ */
+function rank(results: RerankResult[], topK?: number): RerankResult[] {
+    return results.sort((a, b) => b.score - a.score).slice(0, topK ?? results.length);
+}
+
+/**
+ * LLM-as-judge reranker
+ * The model grades each passage from 0 to 10; grades are divided by 10
+ */
+export class LLMJudgeReranker implements IReranker {
+    private readonly mode: LLMJudgeMode;
+    private readonly maxPassageLength: number;
+    private readonly concurrency: number;
+
+    constructor(
+        private readonly llmProvider: ILLMProvider,
+        options: LLMJudgeRerankerOptions = {},
+    ) {
+        this.mode = options.mode ?? "pointwise";
+        this.maxPassageLength = options.maxPassageLength ?? 2000;
+        this.concurrency = Math.max(options.concurrency ?? 4, 1);
+    }
+
+    async rerank(query: string, documents: DocumentChunk[], topK?: number): Promise<RerankResult[]> {
+        if (documents.length === 0) return [];
+
+        const grades = this.mode === "listwise"
+            ? await this.gradeList(query, documents)
+            : await this.gradePassages(query, documents);
+
+        return rank(grades.map((grade, index) => ({ index, score: grade / MAX_GRADE })), topK);
+    }
+
+    /**
+     * Grade each passage in its own call, with at most `concurrency` calls in flight
+     */
+    private async gradePassages(query: string, documents: DocumentChunk[]): Promise<number[]> {
+        const grades = documents.map(() => 0);
+        let next = 0;
+        const worker = async () => {
+            while (next < documents.length) {
+                const index = next++;
+                grades[index] = await this.gradePassage(query, documents[index] as DocumentChunk);
+            }
+        };
+        await Promise.all(Array.from({ length: Math.min(this.concurrency, documents.length) }, worker));
+        return grades;
+    }
+
+    private async gradePassage(query: string, document: DocumentChunk): Promise<number> {
+        const prompt = `Rate how relevant the passage is to the query on a scale from 0 (irrelevant) to ${MAX_GRADE} (fully answers it).
+Respond with only the number.
+
+Query: ${query}
+
+Passage:
+${document.content.slice(0, this.maxPassageLength)}
+
+Relevance:`;
+
+        const response = await this.llmProvider.generate(prompt, { temperature: 0, maxTokens: 5 });
+        const grade = Number.parseFloat(response.content.match(/\d+(?:\.\d+)?/)?.[0] ?? "");
+        return Number.isNaN(grade) ? 0 : Math.min(Math.max(grade, 0), MAX_GRADE);
+    }
+
+    /**
+     * Grade all passages in one call; passages the model leaves out get 0
+     */
+    private async gradeList(query: string, documents: DocumentChunk[]): Promise<number[]> {
+        const passages = documents
+            .map((doc, index) => `[${index + 1}] ${doc.content.slice(0, this.maxPassageLength)}`)
+            .join("\n\n");
+
+        const prompt = `Rate how relevant each passage is to the query on a scale from 0 (irrelevant) to ${MAX_GRADE} (fully answers it).
+Respond with one line per passage in the form "<passage number>: <score>" and nothing else.
+
+Query: ${query}
+
+Passages:
+${passages}
+
+Scores:`;
+
+        const response = await this.llmProvider.generate(prompt, {
+            temperature: 0,
+            maxTokens: documents.length * 8 + 20,
+        });
+
+        const grades = documents.map(() => 0);
+        for (const match of response.content.matchAll(/\[?(\d+)\]?\s*[:=-]\s*(\d+(?:\.\d+)?)/g)) {
+            const index = Number(match[1]) - 1;
+            if (index >= 0 && index < grades.length) {
+                grades[index] = Math.min(Math.max(Number(match[2]), 0), MAX_GRADE);
+            }
+        }
+        return grades;
+    }
+}
+
+export interface LexicalRerankerOptions {
+    /** Analyzer applied to the query and passages (default english) */
+    analyzer?: TextAnalyzer | undefined;
+    /** Weight of query term proximity against coverage (default 0.3) */
+    proximityWeight?: number | undefined;
+    /** Maximum distance between consecutive query terms that counts as close (default 3) */
+    window?: number | undefined;
+}
+
+/**
+ * Lexical cross-scoring reranker that runs locally
+ * Scores combine the IDF-weighted share of query terms a passage contains with how close together they appear
+ */
+export class LexicalReranker implements IReranker {
+    private readonly analyzer: TextAnalyzer;
+    private readonly proximityWeight: number;
+    private readonly window: number;
+
+    constructor(options: LexicalRerankerOptions = {}) {
+        this.analyzer = options.analyzer ?? createAnalyzer("english");
+        this.proximityWeight = Math.min(Math.max(options.proximityWeight ?? 0.3, 0), 1);
+        this.window = options.window ?? 3;
+    }
+
+    async rerank(query: string, documents: DocumentChunk[], topK?: number): Promise<RerankResult[]> {
+        if (documents.length === 0) return [];
+
+        const queryTerms = this.analyzer.analyze(query);
+        const uniqueTerms = Array.from(new Set(queryTerms));
+        const passages = documents.map((doc) => this.analyzer.analyze(doc.content));
+        const passageTerms = passages.map((terms) => new Set(terms));
+
+        // IDF over the candidates, so terms every passage shares count for little
+        const idf = new Map(uniqueTerms.map((term) => {
+            const df = passageTerms.filter((terms) => terms.has(term)).length;
+            return [term, Math.log(1 + (documents.length - df + 0.5) / (df + 0.5))];
+        }));
+        const totalWeight = uniqueTerms.reduce((sum, term) => sum + (idf.get(term) ?? 0), 0);
+
+        return rank(passages.map((terms, index) => {
+            if (totalWeight === 0) return { index, score: 0 };
+
+            const present = passageTerms[index] as Set<string>;
+            const coverage = uniqueTerms
+                .filter((term) => present.has(term))
+                .reduce((sum, term) => sum + (idf.get(term) ?? 0), 0) / totalWeight;
+
+            return { index, score: (1 - this.proximityWeight) * coverage + this.proximityWeight * this.proximity(queryTerms, terms, coverage) };
+        }), topK);
+    }
+
+    /**
+     * Share of consecutive query term pairs that appear in order within the window
+     * Single-term queries have no pairs and fall back to the coverage
+     */
+    private proximity(queryTerms: string[], terms: string[], coverage: number): number {
+        if (queryTerms.length < 2) return coverage;
+
+        const positions = new Map<string, number[]>();
+        terms.forEach((term, position) => {
+            const list = positions.get(term);
+            if (list) list.push(position);
+            else positions.set(term, [position]);
+        });
+
+        let close = 0;
+        for (let i = 1; i < queryTerms.length; i++) {
+            const before = positions.get(queryTerms[i - 1] as string) ?? [];
+            const after = positions.get(queryTerms[i] as string) ?? [];
+            if (before.some((a) => after.some((b) => b > a && b - a <= this.window))) close++;
+        }
+        return close / (queryTerms.length - 1);
+    }
+}
+
+export interface MMRRerankerOptions {
+    /** Trade-off between relevance (1) and diversity (0) (default 0.7) */
+    lambda?: number | undefined;
+}
+
+/**
+ * Maximal marginal relevance reranker
+ * Picks passages that are similar to the query but not to the passages already picked
+ * Stored chunk vectors and the search's query embedding are used when the retriever passes them;
+ * only what is missing is embedded
+ */
+export class MMRReranker implements IReranker {
+    private readonly lambda: number;
+
+    constructor(
+        private readonly embeddingProvider: IEmbeddingProvider,
+        options: MMRRerankerOptions = {},
+    ) {
+        this.lambda = Math.min(Math.max(options.lambda ?? 0.7, 0), 1);
+    }
+
+    async rerank(query: string, documents: DocumentChunk[], topK?: number, context?: RerankContext): Promise<RerankResult[]> {
+        if (documents.length === 0) return [];
+
+        const stored = await context?.getEmbeddings?.(documents.map((doc) => doc.id)) ?? new Map<string, number[]>();
+        const missing = documents.filter((doc) => !stored.has(doc.id));
+        const texts = [...(context?.queryEmbedding ? [] : [query]), ...missing.map((doc) => doc.content)];
+        const computed = texts.length > 0 ? await this.embeddingProvider.embed(texts) : [];
+
+        const queryEmbedding = context?.queryEmbedding ?? computed.shift();
+        if (!queryEmbedding) {
+            throw new Error("Failed to generate query embedding for MMR reranking");
+        }
+        missing.forEach((doc, index) => {
+            const embedding = computed[index];
+            if (embedding) stored.set(doc.id, embedding);
+        });
+        const embeddings = documents.map((doc) => stored.get(doc.id));
+
+        const relevance = documents.map((_, index) => {
+            const embedding = embeddings[index];
+            return embedding ? Math.min(Math.max(cosineSimilarity(queryEmbedding, embedding), 0), 1) : 0;
+        });
+
+        return maximalMarginalRelevance(relevance, embeddings, topK ?? documents.length, this.lambda);
+    }
+}
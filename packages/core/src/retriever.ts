@@ -1,5 +1,39 @@
-import type { DocumentChunk, IEmbeddingProvider, IRetriever, IVectorStore, RetrievedDocument, IReranker, IDocumentStore } from "./interfaces";
+import type {
+    DocumentChunk,
+    IEmbeddingProvider,
+    IRetriever,
+    IVectorStore,
+    MetadataFilter,
+    RetrievedDocument,
+    IReranker,
+    IDocumentStore,
+    ITokenizer,
+    RetrievalReport,
+    ScoreStage,
+    ThresholdResult,
+} from "./interfaces";
 import type { RetrievalConfig } from "@ragx/config";
+import { fuseResults, type ScoredChunk } from "./fusion";
+import { Logger } from "./logger";
+import { maximalMarginalRelevance } from "./mmr";
+import { BPETokenizer } from "./tokenizer";
+
+/**
+ * Candidates fetched from each list before hybrid fusion, relative to the results needed
+ */
+const HYBRID_CANDIDATE_FACTOR = 4;
+
+/**
+ * Clamp a score to 0..1 so thresholds mean the same for every store and reranker
+ */
+function calibrate(result: ScoredChunk): ScoredChunk {
+    return { chunk: result.chunk, score: Math.min(Math.max(result.score, 0), 1) };
+}
+
+/**
+ * Paragraph breaks a parent window grows to
+ */
+const PARAGRAPH_BREAK = /\n\s*\n/g;
 
 /**
  * Retriever implementation
@@ -11,6 +45,7 @@ export class Retriever implements IRetriever {
         private readonly reranker?: IReranker,
         private readonly config?: RetrievalConfig,
         private readonly docStore?: IDocumentStore,
+        private readonly tokenizer: ITokenizer = new BPETokenizer(),
     ) { }
 
     /**
@@ -20,6 +55,8 @@ export class Retriever implements IRetriever {
         query: string,
         topK = 5,
         scoreThreshold = 0.7,
+        filter?: MetadataFilter,
+        onReport?: (report: RetrievalReport) => void,
     ): Promise<RetrievedDocument[]> {
         const strategy = this.config?.strategy || "vector";
         let queryEmbedding: number[] | undefined;
@@ -34,40 +71,64 @@ export class Retriever implements IRetriever {
             }
         }
 
-        // If reranking is enabled, we should fetch more candidates initially
-        const initialK = this.reranker ? Math.max(topK * 4, 20) : topK;
+        // Reranking and MMR choose from a wider set of candidates; otherwise the extra candidates replace collapsed duplicates
+        const mmr = this.config?.mmr?.enabled ? this.config.mmr : undefined;
+        const initialK = this.reranker || mmr ? Math.max(topK * 4, 20) : topK * 2;
 
         // Search vector store
-        // We pass query for hybrid/keyword, and vector for vector/hybrid
-        const results = await this.vectorStore.search(
-            queryEmbedding,
-            initialK,
-            undefined,
-            (strategy === "keyword" || strategy === "hybrid") ? query : undefined
-        );
+        // Hybrid runs the vector and keyword searches separately and fuses them here, the same way for every store
+        const thresholds: ThresholdResult[] = [];
+        let results: ScoredChunk[];
+        let candidates: number;
+        if (strategy === "hybrid") {
+            const candidateK = initialK * HYBRID_CANDIDATE_FACTOR;
+            let [vectorResults, keywordResults] = await Promise.all([
+                queryEmbedding ? this.vectorStore.search(queryEmbedding, candidateK, filter) : [],
+                this.vectorStore.search(undefined, candidateK, filter, query),
+            ]);
+            vectorResults = vectorResults.map(calibrate);
+            keywordResults = keywordResults.map(calibrate);
+            candidates = new Set([...vectorResults, ...keywordResults].map((result) => result.chunk.id)).size;
 
+            // Each list is thresholded on its own scale; with a reranker only the reranked scores are
+            if (!this.reranker) {
+                vectorResults = this.applyThreshold(vectorResults, "vector", scoreThreshold, thresholds);
+                keywordResults = this.applyThreshold(keywordResults, "keyword", scoreThreshold, thresholds);
+            }
+            results = fuseResults(vectorResults, keywordResults, this.config?.fusion).slice(0, initialK);
+        } else {
+            results = (await this.vectorStore.search(
+                queryEmbedding,
+                initialK,
+                filter,
+                strategy === "keyword" ? query : undefined
+            )).map(calibrate);
+            candidates = results.length;
+        }
+
+        let retrieved: RetrievedDocument[];
         if (this.reranker && results.length > 0) {
             const chunks = results.map(r => r.chunk);
-            const rerankedResults = await this.reranker.rerank(query, chunks, topK);
-
-            return rerankedResults
-                .map(r => ({
-                    chunk: chunks[r.index]!,
-                    score: r.score,
-                    source: chunks[r.index]!.metadata.source as string || "unknown",
-                }))
-                .filter(r => r.score >= scoreThreshold);
+            const rerankedResults = await this.reranker.rerank(query, chunks, initialK, {
+                queryEmbedding,
+                getEmbeddings: (chunkIds) => this.vectorStore.getEmbeddings(chunkIds),
+            });
+            const reranked = rerankedResults.map(r => calibrate({ chunk: chunks[r.index]!, score: r.score }));
+
+            retrieved = this.applyThreshold(reranked, "rerank", scoreThreshold, thresholds)
+                .map((result) => this.toRetrieved(result));
+        } else {
+            const stage: ScoreStage = strategy === "hybrid" ? "hybrid" : strategy === "keyword" ? "keyword" : "vector";
+            retrieved = this.applyThreshold(results, stage, scoreThreshold, thresholds)
+                .map((result) => this.toRetrieved(result))
+                .sort((a, b) => b.score - a.score);
         }
 
-        const retrieved = results
-            .filter((result) => result.score >= scoreThreshold)
-            .map((result) => ({
-                chunk: result.chunk,
-                score: result.score,
-                source: result.chunk.metadata.source as string || "unknown",
-            }))
-            .sort((a, b) => b.score - a.score)
-            .slice(0, topK);
+        onReport?.({ query, candidates, thresholds });
+
+        // Identical chunks (versioned copies, boilerplate) collapse into the best scoring one
+        retrieved = this.collapseDuplicates(retrieved);
+        retrieved = mmr ? await this.diversify(retrieved, topK, mmr.lambda) : retrieved.slice(0, topK);
 
         // Final Step: Parent Document Retrieval
         if (this.docStore && retrieved.length > 0) {
@@ -86,10 +147,11 @@ export class Retriever implements IRetriever {
                         ...res,
                         chunk: {
                             ...res.chunk,
-                            content: parentDoc.content, // Return parent content
+                            content: this.fitParent(parentDoc.content, res.chunk.content),
                         }
                     });
                 } else {
+                    Logger.warn(`Parent document "${parentId}" not found; returning the matched chunk`);
                     parentResults.push(res);
                 }
             }
@@ -99,6 +161,193 @@ export class Retriever implements IRetriever {
         return retrieved;
     }
 
+    /**
+     * Keep the results scoring at or above the stage's threshold and record the outcome
+     * Stages without a configured threshold use `fallback`, except fused hybrid scores whose inputs are already thresholded
+     */
+    private applyThreshold(
+        results: ScoredChunk[],
+        stage: ScoreStage,
+        fallback: number,
+        thresholds: ThresholdResult[],
+    ): ScoredChunk[] {
+        const threshold = this.config?.scoreThresholds?.[stage] ?? (stage === "hybrid" ? 0 : fallback);
+        const retained = results.filter((result) => result.score >= threshold);
+        thresholds.push({
+            stage,
+            threshold,
+            candidates: results.length,
+            retained: retained.length,
+            ...(results.length > 0 ? { bestScore: results.reduce((best, result) => Math.max(best, result.score), 0) } : {}),
+        });
+        return retained;
+    }
+
+    /**
+     * Keep the first result of each content checksum
+     */
+    private collapseDuplicates(results: RetrievedDocument[]): RetrievedDocument[] {
+        const seen = new Set<string>();
+        return results.filter(({ chunk }) => {
+            if (!chunk.checksum) return true;
+            if (seen.has(chunk.checksum)) return false;
+            seen.add(chunk.checksum);
+            return true;
+        });
+    }
+
+    /**
+     * Pick the top K with maximal marginal relevance over the stored chunk embeddings
+     */
+    private async diversify(results: RetrievedDocument[], topK: number, lambda: number): Promise<RetrievedDocument[]> {
+        if (results.length <= 1) return results;
+
+        const embeddings = await this.vectorStore.getEmbeddings(results.map((result) => result.chunk.id));
+        return maximalMarginalRelevance(
+            results.map((result) => result.score),
+            results.map((result) => embeddings.get(result.chunk.id)),
+            topK,
+            lambda,
+        ).map(({ index, score }) => ({ ...results[index]!, score }));
+    }
+
+    private toRetrieved(result: ScoredChunk): RetrievedDocument {
+        return {
+            chunk: result.chunk,
+            score: result.score,
+            source: result.chunk.metadata.source as string || "unknown",
+        };
+    }
+
+    /**
+     * Widen each hit with up to `radius` neighboring chunks of the same document
+     * Overlapping or adjacent windows merge into one result that keeps the best hit's ID and score
+     */
+    async expandNeighbors(documents: RetrievedDocument[], radius: number): Promise<RetrievedDocument[]> {
+        if (radius <= 0 || documents.length === 0) return documents;
+
+        const documentIds = Array.from(new Set(documents.map((doc) => doc.chunk.documentId)));
+        const positions = new Map<string, Map<number, DocumentChunk>>();
+        for (const chunk of await this.vectorStore.list(documentIds)) {
+            let chunks = positions.get(chunk.documentId);
+            if (!chunks) {
+                chunks = new Map();
+                positions.set(chunk.documentId, chunks);
+            }
+            chunks.set(chunk.position, chunk);
+        }
+
+        // Windows in result order; a hit next to an earlier window widens that window instead
+        const windows: Array<{ hit: RetrievedDocument; start: number; end: number }> = [];
+        for (const hit of documents) {
+            const window = { hit, start: hit.chunk.position - radius, end: hit.chunk.position + radius };
+            const touches = (other: { start: number; end: number }) => window.start <= other.end + 1 && window.end >= other.start - 1;
+
+            const merged = windows.filter((other) => other.hit.chunk.documentId === hit.chunk.documentId && touches(other));
+            if (merged.length === 0) {
+                windows.push(window);
+                continue;
+            }
+
+            const [first, ...rest] = merged as [typeof window, ...Array<typeof window>];
+            for (const other of [window, ...rest]) {
+                first.start = Math.min(first.start, other.start);
+                first.end = Math.max(first.end, other.end);
+                if (other.hit.score > first.hit.score) first.hit = { ...first.hit, score: other.hit.score };
+            }
+            for (const other of rest) windows.splice(windows.indexOf(other), 1);
+        }
+
+        return windows.map(({ hit, start, end }) => {
+            const chunks = positions.get(hit.chunk.documentId);
+            const neighbors: DocumentChunk[] = [];
+            for (let position = start; position <= end; position++) {
+                const chunk = position === hit.chunk.position ? hit.chunk : chunks?.get(position);
+                if (chunk) neighbors.push(chunk);
+            }
+            if (neighbors.length <= 1) return hit;
+
+            const content = this.joinChunks(neighbors.map((chunk) => chunk.content));
+            return {
+                ...hit,
+                chunk: {
+                    ...hit.chunk,
+                    content,
+                    tokenCount: this.tokenizer.countTokens(content),
+                    metadata: {
+                        ...hit.chunk.metadata,
+                        windowStart: neighbors[0]?.position,
+                        windowEnd: neighbors[neighbors.length - 1]?.position,
+                    },
+                },
+            };
+        });
+    }
+
+    /**
+     * Join consecutive chunks, dropping the words a chunk repeats from the end of the previous one
+     */
+    private joinChunks(contents: string[]): string {
+        let joined = contents[0] ?? "";
+        for (const content of contents.slice(1)) {
+            const previous = joined.trimEnd().split(/\s+/);
+            const words = content.trim().split(/\s+/);
+
+            let overlap = Math.min(previous.length, words.length - 1);
+            while (overlap > 0 && previous.slice(-overlap).join(" ") !== words.slice(0, overlap).join(" ")) {
+                overlap--;
+            }
+
+            joined = overlap > 0
+                ? `${joined} ${words.slice(overlap).join(" ")}`
+                : `${joined}\n\n${content}`;
+        }
+        return joined;
+    }
+
+    /**
+     * Fit a parent into the token budget
+     * An oversized parent is cut to the paragraphs around the matched chunk
+     */
+    private fitParent(parent: string, chunk: string): string {
+        const budget = this.config?.parentTokenBudget;
+        if (!budget || this.tokenizer.countTokens(parent) <= budget) return parent;
+
+        // Chunks may have had their whitespace collapsed, so match any run of whitespace
+        const words = chunk.trim().split(/\s+/).map((word) => word.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+        const match = new RegExp(words.join("\\s+")).exec(parent);
+        if (!match) return chunk;
+
+        const starts = [0];
+        const ends = [parent.length];
+        for (const paragraphBreak of parent.matchAll(PARAGRAPH_BREAK)) {
+            ends.push(paragraphBreak.index);
+            starts.push(paragraphBreak.index + paragraphBreak[0].length);
+        }
+
+        // Grow the window a paragraph at a time on alternating sides while it fits
+        let start = match.index;
+        let end = match.index + match[0].length;
+        let growBefore = true;
+        let blocked = 0;
+        while (blocked < 2) {
+            const candidate = growBefore
+                ? { start: Math.max(-1, ...starts.filter((offset) => offset < start)), end }
+                : { start, end: Math.min(Number.POSITIVE_INFINITY, ...ends.filter((offset) => offset > end)) };
+            growBefore = !growBefore;
+
+            const grows = candidate.start >= 0 && candidate.end !== Number.POSITIVE_INFINITY;
+            if (grows && this.tokenizer.countTokens(parent.slice(candidate.start, candidate.end)) <= budget) {
+                ({ start, end } = candidate);
+                blocked = 0;
+            } else {
+                blocked++;
+            }
+        }
+
+        return parent.slice(start, end).trim();
+    }
+
     /**
      * Add documents to the vector store
      */
@@ -114,9 +363,29 @@ export class Retriever implements IRetriever {
      * Delete documents by IDs
      */
     async deleteDocuments(documentIds: string[]): Promise<void> {
-        await this.vectorStore.delete(documentIds);
         if (this.docStore) {
-            await this.docStore.delete(documentIds);
+            // Hierarchical chunks point at parent sections stored under their own IDs
+            const parentIds = new Set(documentIds);
+            for (const chunk of await this.vectorStore.list(documentIds)) {
+                if (chunk.metadata.parentId) parentIds.add(chunk.metadata.parentId);
+            }
+            await this.docStore.delete(Array.from(parentIds));
         }
+        await this.vectorStore.delete(documentIds);
+    }
+
+    /**
+     * Delete individual chunks by IDs
+     */
+    async deleteChunks(chunkIds: string[]): Promise<void> {
+        if (chunkIds.length === 0) return;
+        await this.vectorStore.deleteChunks(chunkIds);
+    }
+
+    /**
+     * List stored chunks, optionally only those of the given documents
+     */
+    async listChunks(documentIds?: string[]): Promise<DocumentChunk[]> {
+        return this.vectorStore.list(documentIds);
     }
 }
@@ -0,0 +1,130 @@
+import { Tiktoken } from "js-tiktoken/lite";
+import cl100kBase from "js-tiktoken/ranks/cl100k_base";
+import o200kBase from "js-tiktoken/ranks/o200k_base";
+import type { ITokenizer } from "./interfaces";
+
+/**
+ * Bundled BPE encodings
+ */
+export type BPEEncoding = "cl100k_base" | "o200k_base";
+
+/**
+ * Tokenizer names accepted in model config
+ * "auto" picks the encoding from the model name
+ */
+export type TokenizerName = "auto" | "approximate" | BPEEncoding;
+
+/**
+ * Context window used when the model is unknown
+ */
+export const DEFAULT_CONTEXT_WINDOW = 8192;
+
+/**
+ * Tokens reserved for the response when the model config sets no maxTokens
+ */
+const DEFAULT_RESPONSE_TOKENS = 1024;
+
+/**
+ * Known model context windows, matched by model name prefix
+ * More specific prefixes must come first
+ */
+const CONTEXT_WINDOWS: Array<[prefix: string, tokens: number]> = [
+    ["gpt-5", 400_000],
+    ["gpt-4o", 128_000],
+    ["gpt-4.1", 1_047_576],
+    ["gpt-4-turbo", 128_000],
+    ["gpt-4-32k", 32_768],
+    ["gpt-4", 8_192],
+    ["gpt-3.5-turbo", 16_385],
+    ["o1", 200_000],
+    ["o3", 200_000],
+    ["o4", 200_000],
+    ["claude", 200_000],
+    ["gemini-1.5-pro", 2_097_152],
+    ["gemini", 1_048_576],
+    ["command-r", 128_000],
+    ["command", 4_096],
+    ["mistral-large", 128_000],
+    ["mistral-small", 32_000],
+    ["open-mistral-nemo", 128_000],
+    ["codestral", 256_000],
+    ["llama3.1", 128_000],
+    ["llama3.2", 128_000],
+    ["llama3", 8_192],
+];
+
+/**
+ * Model prefixes encoded with o200k_base; other models use cl100k_base
+ */
+const O200K_PREFIXES = ["gpt-4o", "gpt-4.1", "gpt-5", "o1", "o3", "o4"];
+
+const RANKS = { cl100k_base: cl100kBase, o200k_base: o200kBase };
+const encodings = new Map<BPEEncoding, Tiktoken>();
+
+/**
+ * Character-count approximation (1 token ≈ 4 characters)
+ */
+export class ApproximateTokenizer implements ITokenizer {
+    readonly name = "approximate";
+
+    countTokens(text: string): number {
+        return Math.ceil(text.length / 4);
+    }
+}
+
+/**
+ * Byte-pair encoding tokenizer using the bundled OpenAI encodings
+ * Works offline; encodings are loaded once and shared
+ */
+export class BPETokenizer implements ITokenizer {
+    private readonly encoding: Tiktoken;
+
+    constructor(readonly name: BPEEncoding = "cl100k_base") {
+        let encoding = encodings.get(name);
+        if (!encoding) {
+            encoding = new Tiktoken(RANKS[name]);
+            encodings.set(name, encoding);
+        }
+        this.encoding = encoding;
+    }
+
+    countTokens(text: string): number {
+        if (text.length === 0) return 0;
+        // Special token markers in documents are counted as plain text
+        return this.encoding.encode(text, [], []).length;
+    }
+}
+
+/**
+ * Create a tokenizer by name, resolving "auto" from the model
+ */
+export function createTokenizer(name: TokenizerName = "auto", model = ""): ITokenizer {
+    if (name === "approximate") return new ApproximateTokenizer();
+    if (name === "auto") return new BPETokenizer(encodingForModel(model));
+    return new BPETokenizer(name);
+}
+
+/**
+ * BPE encoding used by a model
+ * Non-OpenAI models fall back to cl100k_base, which is a closer estimate than character counts
+ */
+export function encodingForModel(model: string): BPEEncoding {
+    const name = model.toLowerCase();
+    return O200K_PREFIXES.some((prefix) => name.startsWith(prefix)) ? "o200k_base" : "cl100k_base";
+}
+
+/**
+ * Context window of a model in tokens
+ */
+export function getContextWindow(model: string): number {
+    const name = model.toLowerCase().replace(/^models\//, "");
+    const match = CONTEXT_WINDOWS.find(([prefix]) => name.startsWith(prefix));
+    return match ? match[1] : DEFAULT_CONTEXT_WINDOW;
+}
+
+/**
+ * Tokens of a model's window left for the prompt once the response is reserved
+ */
+export function getPromptBudget(model: string, contextWindow?: number, maxTokens?: number): number {
+    return Math.max((contextWindow ?? getContextWindow(model)) - (maxTokens ?? DEFAULT_RESPONSE_TOKENS), 0);
+}
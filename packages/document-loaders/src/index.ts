@@ -4,6 +4,7 @@ export * from "./loaders/base";
 export * from "./loaders/text";
 export * from "./loaders/pdf";
 export * from "./loaders/docx";
+export * from "./loaders/file";
 export * from "./loaders/directory";
 export * from "./loaders/url";
 
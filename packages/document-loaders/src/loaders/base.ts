@@ -1,23 +1,51 @@
-import type { Document, IDocumentLoader } from "@ragx/core";
+import { createDocumentId, type Document, type IDocumentLoader } from "@ragx/core";
+import fs from "node:fs/promises";
 import path from "node:path";
 
+/**
+ * File loader options
+ */
+export interface FileLoaderOptions {
+    /**
+     * File contents already in memory (e.g. an upload)
+     * The file path then only names the file and is never read
+     */
+    data?: Uint8Array;
+    /**
+     * Name the document ID is derived from instead of the file path
+     * Loading under the same name again yields the same ID, so the document is updated in place
+     */
+    id?: string;
+}
+
 /**
  * Base document loader
  */
 export abstract class BaseLoader implements IDocumentLoader {
-    constructor(protected readonly filePath: string) { }
+    constructor(
+        protected readonly filePath: string,
+        protected readonly options: FileLoaderOptions = {},
+    ) { }
 
     /**
      * Load documents from the source
      */
     abstract load(): Promise<Document[]>;
 
+    /**
+     * Read the raw file contents
+     */
+    protected async read(): Promise<Buffer> {
+        return this.options.data ? Buffer.from(this.options.data) : fs.readFile(this.filePath);
+    }
+
     /**
      * Helper to create a document object
+     * The ID is derived from the configured id or else the absolute file path, so re-loading a file yields the same ID
      */
     protected createDocument(content: string, metadata: Record<string, any> = {}): Document {
         return {
-            id: crypto.randomUUID(),
+            id: createDocumentId(this.options.id ?? path.resolve(this.filePath)),
             content,
             source: path.basename(this.filePath),
             metadata: {
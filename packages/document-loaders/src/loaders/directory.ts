@@ -1,9 +1,7 @@
 import type { Document, IDocumentLoader } from "@ragx/core";
 import fs from "node:fs/promises";
 import path from "node:path";
-import { TextLoader } from "./text";
-import { PdfLoader } from "./pdf";
-import { DocxLoader } from "./docx";
+import { createFileLoader } from "./file";
 
 /**
  * Loader for directories, automatically choosing the right loader for each file
@@ -11,10 +9,19 @@ import { DocxLoader } from "./docx";
 export class DirectoryLoader implements IDocumentLoader {
     constructor(private readonly directoryPath: string, private readonly recursive = true) { }
 
+    /**
+     * Load every supported file
+     * Documents record the resolved root in `metadata.directory`, so re-ingestion can prune files deleted from it
+     */
     async load(): Promise<Document[]> {
         const documents: Document[] = [];
         await this.processDirectory(this.directoryPath, documents);
-        return documents;
+
+        const directory = path.resolve(this.directoryPath);
+        return documents.map((document) => ({
+            ...document,
+            metadata: { ...document.metadata, directory },
+        }));
     }
 
     private async processDirectory(dir: string, docs: Document[]): Promise<void> {
@@ -27,21 +34,7 @@ export class DirectoryLoader implements IDocumentLoader {
             if (stats.isDirectory() && this.recursive) {
                 await this.processDirectory(fullPath, docs);
             } else if (stats.isFile()) {
-                const ext = path.extname(file).toLowerCase();
-                let loader: IDocumentLoader | null = null;
-
-                switch (ext) {
-                    case ".txt":
-                    case ".md":
-                        loader = new TextLoader(fullPath);
-                        break;
-                    case ".pdf":
-                        loader = new PdfLoader(fullPath);
-                        break;
-                    case ".docx":
-                        loader = new DocxLoader(fullPath);
-                        break;
-                }
+                const loader = createFileLoader(fullPath);
 
                 if (loader) {
                     try {
@@ -7,7 +7,7 @@ import { BaseLoader } from "./base";
  */
 export class DocxLoader extends BaseLoader {
     async load(): Promise<Document[]> {
-        const result = await mammoth.extractRawText({ path: this.filePath });
+        const result = await mammoth.extractRawText({ buffer: await this.read() });
         return [this.createDocument(result.value)];
     }
 }
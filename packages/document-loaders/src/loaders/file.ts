@@ -0,0 +1,53 @@
+import path from "node:path";
+import type { BaseLoader, FileLoaderOptions } from "./base";
+import { DocxLoader } from "./docx";
+import { PdfLoader } from "./pdf";
+import { TextLoader } from "./text";
+
+type FileLoaderClass = new (filePath: string, options?: FileLoaderOptions) => BaseLoader;
+
+/**
+ * Loaders by file extension
+ */
+const LOADERS_BY_EXTENSION: Record<string, FileLoaderClass> = {
+    ".txt": TextLoader,
+    ".md": TextLoader,
+    ".pdf": PdfLoader,
+    ".docx": DocxLoader,
+};
+
+/**
+ * Loaders by MIME type
+ */
+const LOADERS_BY_MIME_TYPE: Record<string, FileLoaderClass> = {
+    "text/plain": TextLoader,
+    "text/markdown": TextLoader,
+    "text/x-markdown": TextLoader,
+    "application/pdf": PdfLoader,
+    "application/vnd.openxmlformats-officedocument.wordprocessingml.document": DocxLoader,
+};
+
+/**
+ * Supported file extensions
+ */
+export const SUPPORTED_FILE_EXTENSIONS = Object.keys(LOADERS_BY_EXTENSION);
+
+/**
+ * Create the loader for a single file, chosen by extension or else by MIME type
+ * Returns undefined for unsupported files
+ */
+export function createFileLoader(
+    filePath: string,
+    options?: FileLoaderOptions & { mimeType?: string },
+): BaseLoader | undefined {
+    const mimeType = options?.mimeType?.split(";")[0]?.trim().toLowerCase();
+    const Loader = LOADERS_BY_EXTENSION[path.extname(filePath).toLowerCase()]
+        ?? (mimeType ? LOADERS_BY_MIME_TYPE[mimeType] : undefined);
+
+    return Loader
+        ? new Loader(filePath, {
+            ...(options?.data ? { data: options.data } : {}),
+            ...(options?.id ? { id: options.id } : {}),
+        })
+        : undefined;
+}
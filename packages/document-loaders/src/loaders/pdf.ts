@@ -1,5 +1,4 @@
 import type { Document } from "@ragx/core";
-import fs from "node:fs/promises";
 import pdf from "pdf-parse";
 import { BaseLoader } from "./base";
 
@@ -8,7 +7,7 @@ import { BaseLoader } from "./base";
  */
 export class PdfLoader extends BaseLoader {
     async load(): Promise<Document[]> {
-        const dataBuffer = await fs.readFile(this.filePath);
+        const dataBuffer = await this.read();
         const data = await pdf(dataBuffer);
 
         return [
@@ -1,5 +1,4 @@
 import type { Document } from "@ragx/core";
-import fs from "node:fs/promises";
 import { BaseLoader } from "./base";
 
 /**
@@ -7,7 +6,7 @@ import { BaseLoader } from "./base";
  */
 export class TextLoader extends BaseLoader {
     async load(): Promise<Document[]> {
-        const content = await fs.readFile(this.filePath, "utf-8");
+        const content = (await this.read()).toString("utf-8");
         return [this.createDocument(content)];
     }
 }
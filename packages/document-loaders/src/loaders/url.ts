@@ -1,5 +1,4 @@
-import type { Document, IDocumentLoader } from "@ragx/core";
-import { randomUUID } from "node:crypto";
+import { createDocumentId, type Document, type IDocumentLoader } from "@ragx/core";
 
 /**
  * Loader for web pages via URL
@@ -22,7 +21,7 @@ export class URLLoader implements IDocumentLoader {
             const title = this.extractTitle(html);
 
             return [{
-                id: randomUUID(),
+                id: createDocumentId(this.url),
                 content,
                 source: this.url,
                 metadata: {
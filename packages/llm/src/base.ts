@@ -1,4 +1,10 @@
-import type { ILLMProvider, LLMResponse } from "@ragx/core";
+import type {
+    ChatMessage,
+    ILLMProvider,
+    LLMGenerateOptions,
+    LLMResponse,
+    LLMStreamEvent,
+} from "@ragx/core";
 
 /**
  * Base LLM provider with retry logic
@@ -13,14 +19,14 @@ export abstract class BaseLLMProvider implements ILLMProvider {
     }
 
     abstract generate(
-        prompt: string,
-        options?: { temperature?: number; maxTokens?: number },
+        input: string | ChatMessage[],
+        options?: LLMGenerateOptions,
     ): Promise<LLMResponse>;
 
     abstract generateStream(
-        prompt: string,
-        options?: { temperature?: number; maxTokens?: number },
-    ): AsyncGenerator<string, void, unknown>;
+        input: string | ChatMessage[],
+        options?: LLMGenerateOptions,
+    ): AsyncGenerator<LLMStreamEvent, void, unknown>;
 
     /**
      * Retry wrapper with exponential backoff
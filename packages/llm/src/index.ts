@@ -1,5 +1,14 @@
-import type { ModelConfig } from "@ragx/config";
-import type { ILLMProvider, IReranker } from "@ragx/core";
+import type { ModelConfig, RerankerConfig, RetrievalConfig } from "@ragx/config";
+import {
+    createAnalyzer,
+    LexicalReranker,
+    LLMJudgeReranker,
+    MMRReranker,
+    type AnalyzerLanguage,
+    type IEmbeddingProvider,
+    type ILLMProvider,
+    type IReranker,
+} from "@ragx/core";
 import { MistralProvider } from "./providers/mistral";
 import { OpenAIProvider } from "./providers/openai";
 import { AnthropicProvider } from "./providers/anthropic";
@@ -30,12 +39,57 @@ export function createLLMProvider(config: ModelConfig, apiKey: string): ILLMProv
     }
 }
 
+/**
+ * Providers and keys a reranker may need
+ */
+export interface RerankerDependencies {
+    /** Cohere API key */
+    cohereApiKey?: string | undefined;
+    /** Model that judges relevance for the llm reranker */
+    llm?: ILLMProvider | undefined;
+    /** Embeddings for the mmr reranker */
+    embeddings?: IEmbeddingProvider | undefined;
+    /** Analyzer language for the lexical reranker (default english) */
+    analyzer?: AnalyzerLanguage | undefined;
+}
+
+/**
+ * Reranker configured for retrieval, if any
+ * A bare `rerankModel` selects the Cohere reranker
+ */
+export function getRerankerConfig(retrieval?: RetrievalConfig): RerankerConfig | undefined {
+    if (retrieval?.reranker) return retrieval.reranker;
+    if (retrieval?.rerankModel) {
+        return { provider: "cohere", model: retrieval.rerankModel, mode: "pointwise", concurrency: 4, lambda: 0.7 };
+    }
+    return undefined;
+}
+
 /**
  * Create Reranker from configuration
  */
-export function createReranker(model: string, apiKey: string): IReranker {
-    // Currently only Cohere is supported for reranking
-    return new CohereReranker(apiKey, model);
+export function createReranker(config: RerankerConfig, dependencies: RerankerDependencies = {}): IReranker {
+    switch (config.provider) {
+        case "cohere":
+            if (!dependencies.cohereApiKey) {
+                throw new Error("Cohere reranker requires a Cohere API key");
+            }
+            return new CohereReranker(dependencies.cohereApiKey, config.model);
+        case "llm":
+            if (!dependencies.llm) {
+                throw new Error("LLM reranker requires an LLM provider");
+            }
+            return new LLMJudgeReranker(dependencies.llm, { mode: config.mode, concurrency: config.concurrency });
+        case "lexical":
+            return new LexicalReranker({ analyzer: createAnalyzer(dependencies.analyzer) });
+        case "mmr":
+            if (!dependencies.embeddings) {
+                throw new Error("MMR reranker requires an embedding provider");
+            }
+            return new MMRReranker(dependencies.embeddings, { lambda: config.lambda });
+        default:
+            throw new Error(`Unsupported reranker provider: ${config.provider}`);
+    }
 }
 
 // Re-export providers
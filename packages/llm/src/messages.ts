@@ -0,0 +1,65 @@
+import type { ChatMessage } from "@ragx/core";
+
+/**
+ * Normalize provider input into chat messages
+ * A plain string prompt becomes a single user message
+ */
+export function toChatMessages(input: string | ChatMessage[]): ChatMessage[] {
+    if (typeof input === "string") {
+        return [{ role: "user", content: input, timestamp: new Date() }];
+    }
+    return input;
+}
+
+/**
+ * Separate system messages for APIs that take the system prompt as its own field
+ */
+export function splitSystemMessages(messages: ChatMessage[]): {
+    system: string | undefined;
+    conversation: ChatMessage[];
+} {
+    const systemParts = messages.filter((m) => m.role === "system").map((m) => m.content);
+    return {
+        system: systemParts.length > 0 ? systemParts.join("\n\n") : undefined,
+        conversation: messages.filter((m) => m.role !== "system"),
+    };
+}
+
+/**
+ * Map tool call IDs to tool names for APIs that reference results by name
+ */
+export function toolNamesById(messages: ChatMessage[]): Map<string, string> {
+    const names = new Map<string, string>();
+    for (const message of messages) {
+        for (const call of message.toolCalls ?? []) {
+            names.set(call.id, call.name);
+        }
+    }
+    return names;
+}
+
+/**
+ * Parse tool call arguments that may arrive as a JSON string or an object
+ */
+export function parseToolArguments(raw: unknown): Record<string, unknown> {
+    if (raw !== null && typeof raw === "object") {
+        return raw as Record<string, unknown>;
+    }
+    if (typeof raw !== "string" || raw.trim().length === 0) {
+        return {};
+    }
+
+    try {
+        const parsed = JSON.parse(raw);
+        return parsed !== null && typeof parsed === "object" ? parsed : {};
+    } catch {
+        throw new Error(`Invalid tool call arguments: ${raw}`);
+    }
+}
+
+/**
+ * Generate an ID for providers that do not assign tool call IDs
+ */
+export function createToolCallId(): string {
+    return `call_${crypto.randomUUID().replace(/-/g, "").slice(0, 24)}`;
+}
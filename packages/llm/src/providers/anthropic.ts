@@ -1,6 +1,15 @@
-
 import Anthropic from "@anthropic-ai/sdk";
-import type { ILLMProvider, LLMResponse } from "@ragx/core";
+import type {
+    ChatMessage,
+    ILLMProvider,
+    ITool,
+    LLMFinishReason,
+    LLMGenerateOptions,
+    LLMResponse,
+    LLMStreamEvent,
+    ToolCall,
+} from "@ragx/core";
+import { splitSystemMessages, toChatMessages } from "../messages";
 
 export class AnthropicProvider implements ILLMProvider {
     private client: Anthropic;
@@ -14,23 +23,41 @@ export class AnthropicProvider implements ILLMProvider {
     }
 
     async generate(
-        prompt: string,
-        options?: { temperature?: number; maxTokens?: number },
+        input: string | ChatMessage[],
+        options?: LLMGenerateOptions,
     ): Promise<LLMResponse> {
+        const { system, conversation } = splitSystemMessages(toChatMessages(input));
+        const tools = this.toAnthropicTools(options?.tools);
+
         const response = await this.client.messages.create({
             model: this.model,
             max_tokens: options?.maxTokens || 1024,
-            temperature: options?.temperature || 0.7,
-            messages: [{ role: "user", content: prompt }],
+            temperature: options?.temperature ?? 0.7,
+            messages: this.toAnthropicMessages(conversation),
+            ...(system ? { system } : {}),
+            ...(tools ? { tools } : {}),
         });
 
-        // The content block type needs to be checked, usually it's text
-        const contentBlock = response.content[0];
-        const text = contentBlock?.type === "text" ? contentBlock.text : "";
+        // Text and tool_use blocks can be interleaved in a single response
+        let text = "";
+        const toolCalls: ToolCall[] = [];
+        for (const block of response.content) {
+            if (block.type === "text") {
+                text += block.text;
+            } else if (block.type === "tool_use") {
+                toolCalls.push({
+                    id: block.id,
+                    name: block.name,
+                    arguments: (block.input ?? {}) as Record<string, unknown>,
+                });
+            }
+        }
 
         return {
             content: text,
             model: this.model,
+            ...(toolCalls.length > 0 ? { toolCalls } : {}),
+            ...(response.stop_reason ? { finishReason: this.toFinishReason(response.stop_reason) } : {}),
             usage: {
                 promptTokens: response.usage.input_tokens,
                 completionTokens: response.usage.output_tokens,
@@ -40,21 +67,144 @@ export class AnthropicProvider implements ILLMProvider {
     }
 
     async *generateStream(
-        prompt: string,
-        options?: { temperature?: number; maxTokens?: number },
-    ): AsyncGenerator<string, void, unknown> {
+        input: string | ChatMessage[],
+        options?: LLMGenerateOptions,
+    ): AsyncGenerator<LLMStreamEvent, void, unknown> {
+        const { system, conversation } = splitSystemMessages(toChatMessages(input));
+        const tools = this.toAnthropicTools(options?.tools);
+
         const stream = await this.client.messages.create({
             model: this.model,
             max_tokens: options?.maxTokens || 1024,
-            temperature: options?.temperature || 0.7,
-            messages: [{ role: "user", content: prompt }],
+            temperature: options?.temperature ?? 0.7,
+            messages: this.toAnthropicMessages(conversation),
+            ...(system ? { system } : {}),
+            ...(tools ? { tools } : {}),
             stream: true,
         });
 
+        // Input tokens arrive with message_start, output tokens with message_delta
+        let promptTokens = 0;
+
         for await (const chunk of stream) {
-            if (chunk.type === "content_block_delta" && chunk.delta.type === "text_delta") {
-                yield chunk.delta.text;
+            switch (chunk.type) {
+                case "message_start":
+                    promptTokens = chunk.message.usage.input_tokens;
+                    break;
+                case "content_block_start":
+                    if (chunk.content_block.type === "tool_use") {
+                        yield {
+                            type: "tool_call_delta",
+                            index: chunk.index,
+                            id: chunk.content_block.id,
+                            name: chunk.content_block.name,
+                        };
+                    }
+                    break;
+                case "content_block_delta":
+                    if (chunk.delta.type === "text_delta") {
+                        yield { type: "text_delta", text: chunk.delta.text };
+                    } else if (chunk.delta.type === "input_json_delta") {
+                        yield {
+                            type: "tool_call_delta",
+                            index: chunk.index,
+                            argumentsDelta: chunk.delta.partial_json,
+                        };
+                    }
+                    break;
+                case "message_delta":
+                    yield {
+                        type: "usage",
+                        usage: {
+                            promptTokens,
+                            completionTokens: chunk.usage.output_tokens,
+                            totalTokens: promptTokens + chunk.usage.output_tokens,
+                        },
+                    };
+                    if (chunk.delta.stop_reason) {
+                        yield { type: "finish", reason: this.toFinishReason(chunk.delta.stop_reason) };
+                    }
+                    break;
             }
         }
     }
+
+    /**
+     * Map chat messages to Anthropic message params
+     * Tool results are sent as user turns, and consecutive turns of the same role are merged
+     */
+    private toAnthropicMessages(messages: ChatMessage[]): Anthropic.MessageParam[] {
+        const result: Array<{ role: "user" | "assistant"; content: Anthropic.ContentBlockParam[] }> = [];
+
+        for (const message of messages) {
+            const role = message.role === "assistant" ? "assistant" : "user";
+            const blocks: Anthropic.ContentBlockParam[] = [];
+
+            if (message.role === "tool") {
+                blocks.push({
+                    type: "tool_result",
+                    tool_use_id: message.toolCallId || "",
+                    content: message.content,
+                });
+            } else {
+                if (message.content) {
+                    blocks.push({ type: "text", text: message.content });
+                }
+                for (const call of message.toolCalls ?? []) {
+                    blocks.push({
+                        type: "tool_use",
+                        id: call.id,
+                        name: call.name,
+                        input: call.arguments,
+                    });
+                }
+            }
+
+            if (blocks.length === 0) continue;
+
+            const previous = result[result.length - 1];
+            if (previous && previous.role === role) {
+                previous.content.push(...blocks);
+            } else {
+                result.push({ role, content: blocks });
+            }
+        }
+
+        return result;
+    }
+
+    /**
+     * Map Anthropic stop reasons
+     */
+    private toFinishReason(reason: Anthropic.StopReason): LLMFinishReason {
+        switch (reason) {
+            case "end_turn":
+            case "stop_sequence":
+                return "stop";
+            case "max_tokens":
+                return "length";
+            case "tool_use":
+                return "tool_calls";
+            case "refusal":
+                return "content_filter";
+            default:
+                return "other";
+        }
+    }
+
+    /**
+     * Map tools to Anthropic tool definitions
+     */
+    private toAnthropicTools(tools?: ITool[]): Anthropic.Tool[] | undefined {
+        if (!tools || tools.length === 0) return undefined;
+
+        return tools.map((tool) => ({
+            name: tool.name,
+            description: tool.description,
+            input_schema: {
+                type: "object" as const,
+                ...tool.parameters,
+            },
+        }));
+    }
 }
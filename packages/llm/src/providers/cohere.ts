@@ -1,8 +1,65 @@
-import type { LLMResponse } from "@ragx/core";
+import type {
+    ChatMessage,
+    ITool,
+    LLMFinishReason,
+    LLMGenerateOptions,
+    LLMResponse,
+    LLMStreamEvent,
+    ToolCall,
+} from "@ragx/core";
 import { BaseLLMProvider } from "../base";
+import { parseToolArguments, toChatMessages } from "../messages";
+
+const COHERE_CHAT_URL = "https://api.cohere.com/v2/chat";
+
+/**
+ * Token counts reported by the Cohere Chat API
+ */
+interface CohereTokens {
+    input_tokens?: number;
+    output_tokens?: number;
+}
+
+interface CohereUsage {
+    tokens?: CohereTokens;
+    billed_units?: CohereTokens;
+}
+
+interface CohereToolCall {
+    id: string;
+    function: { name: string; arguments?: string };
+}
+
+/**
+ * Cohere v2 chat response
+ */
+interface CohereChatResponse {
+    message?: {
+        content?: Array<{ type: string; text?: string }>;
+        tool_calls?: CohereToolCall[];
+    };
+    finish_reason?: string;
+    usage?: CohereUsage;
+}
 
 /**
- * Cohere LLM provider
+ * Cohere v2 stream event; tool call deltas carry a single partial call
+ */
+interface CohereStreamEvent {
+    type: string;
+    index?: number;
+    delta?: {
+        message?: {
+            content?: { text?: string };
+            tool_calls?: Partial<CohereToolCall> & { function?: Partial<CohereToolCall["function"]> };
+        };
+        finish_reason?: string;
+        usage?: CohereUsage;
+    };
+}
+
+/**
+ * Cohere LLM provider (Chat API v2)
  */
 export class CohereProvider extends BaseLLMProvider {
     private readonly apiKey: string;
@@ -18,39 +75,49 @@ export class CohereProvider extends BaseLLMProvider {
      * Generate a response
      */
     async generate(
-        prompt: string,
-        options?: { temperature?: number; maxTokens?: number },
+        input: string | ChatMessage[],
+        options?: LLMGenerateOptions,
     ): Promise<LLMResponse> {
         return this.withRetry(async () => {
-            const response = await fetch("https://api.cohere.ai/v1/chat", {
+            const tools = this.toCohereTools(options?.tools);
+            const response = await fetch(COHERE_CHAT_URL, {
                 method: "POST",
-                headers: {
-                    "Authorization": `Bearer ${this.apiKey}`,
-                    "Content-Type": "application/json",
-                    "accept": "application/json",
-                },
+                headers: this.headers(),
                 body: JSON.stringify({
-                    message: prompt,
                     model: this.model,
+                    messages: this.toCohereMessages(toChatMessages(input)),
                     temperature: options?.temperature ?? 0.7,
                     max_tokens: options?.maxTokens,
+                    ...(tools ? { tools } : {}),
                 }),
             });
 
             if (!response.ok) {
-                const error = await response.json() as any;
+                const error = await response.json() as { message?: string };
                 throw new Error(`Cohere API error: ${error.message || response.statusText}`);
             }
 
-            const data = await response.json() as any;
+            const data = await response.json() as CohereChatResponse;
+            const content = (data.message?.content ?? [])
+                .filter((block) => block.type === "text")
+                .map((block) => block.text ?? "")
+                .join("");
+            const toolCalls: ToolCall[] = (data.message?.tool_calls ?? []).map((call) => ({
+                id: call.id,
+                name: call.function.name,
+                arguments: parseToolArguments(call.function.arguments),
+            }));
+            const tokens = data.usage?.tokens ?? data.usage?.billed_units;
 
             return {
-                content: data.text || "",
+                content,
                 model: this.model,
+                ...(toolCalls.length > 0 ? { toolCalls } : {}),
+                ...(data.finish_reason ? { finishReason: this.toFinishReason(data.finish_reason) } : {}),
                 usage: {
-                    promptTokens: data.token_count?.prompt_tokens || 0,
-                    completionTokens: data.token_count?.response_tokens || 0,
-                    totalTokens: data.token_count?.total_tokens || 0,
+                    promptTokens: tokens?.input_tokens || 0,
+                    completionTokens: tokens?.output_tokens || 0,
+                    totalTokens: (tokens?.input_tokens || 0) + (tokens?.output_tokens || 0),
                 },
             };
         });
@@ -60,22 +127,20 @@ export class CohereProvider extends BaseLLMProvider {
      * Generate a streaming response
      */
     async *generateStream(
-        prompt: string,
-        options?: { temperature?: number; maxTokens?: number },
-    ): AsyncGenerator<string, void, unknown> {
-        const response = await fetch("https://api.cohere.ai/v1/chat", {
+        input: string | ChatMessage[],
+        options?: LLMGenerateOptions,
+    ): AsyncGenerator<LLMStreamEvent, void, unknown> {
+        const tools = this.toCohereTools(options?.tools);
+        const response = await fetch(COHERE_CHAT_URL, {
             method: "POST",
-            headers: {
-                "Authorization": `Bearer ${this.apiKey}`,
-                "Content-Type": "application/json",
-                "accept": "application/json",
-            },
+            headers: this.headers(),
             body: JSON.stringify({
-                message: prompt,
                 model: this.model,
+                messages: this.toCohereMessages(toChatMessages(input)),
                 stream: true,
                 temperature: options?.temperature ?? 0.7,
                 max_tokens: options?.maxTokens,
+                ...(tools ? { tools } : {}),
             }),
         });
 
@@ -87,23 +152,152 @@ export class CohereProvider extends BaseLLMProvider {
         if (!reader) throw new Error("No reader for Cohere stream");
 
         const decoder = new TextDecoder();
+        let buffer = "";
         while (true) {
             const { done, value } = await reader.read();
             if (done) break;
 
-            const chunk = decoder.decode(value, { stream: true });
-            const lines = chunk.split("\n").filter(l => l.trim().length > 0);
+            buffer += decoder.decode(value, { stream: true });
+            const lines = buffer.split("\n");
+            buffer = lines.pop() ?? "";
 
             for (const line of lines) {
+                if (!line.startsWith("data:")) continue;
+
+                let data: CohereStreamEvent;
                 try {
-                    const data = JSON.parse(line);
-                    if (data.event_type === "text-generation") {
-                        yield data.text;
-                    }
+                    data = JSON.parse(line.slice(5)) as CohereStreamEvent;
                 } catch (e) {
-                    // Ignore partial lines
+                    // Ignore malformed events
+                    continue;
+                }
+
+                yield* this.toStreamEvent(data);
+            }
+        }
+    }
+
+    /**
+     * Translate a Cohere v2 stream event
+     */
+    private *toStreamEvent(data: CohereStreamEvent): Generator<LLMStreamEvent> {
+        switch (data.type) {
+            case "content-delta": {
+                const text = data.delta?.message?.content?.text;
+                if (text) yield { type: "text_delta", text };
+                break;
+            }
+            case "tool-call-start": {
+                const call = data.delta?.message?.tool_calls;
+                yield {
+                    type: "tool_call_delta",
+                    index: data.index ?? 0,
+                    ...(call?.id ? { id: call.id } : {}),
+                    ...(call?.function?.name ? { name: call.function.name } : {}),
+                    argumentsDelta: call?.function?.arguments ?? "",
+                };
+                break;
+            }
+            case "tool-call-delta":
+                yield {
+                    type: "tool_call_delta",
+                    index: data.index ?? 0,
+                    argumentsDelta: data.delta?.message?.tool_calls?.function?.arguments ?? "",
+                };
+                break;
+            case "message-end": {
+                const tokens = data.delta?.usage?.tokens ?? data.delta?.usage?.billed_units;
+                if (tokens) {
+                    yield {
+                        type: "usage",
+                        usage: {
+                            promptTokens: tokens.input_tokens || 0,
+                            completionTokens: tokens.output_tokens || 0,
+                            totalTokens: (tokens.input_tokens || 0) + (tokens.output_tokens || 0),
+                        },
+                    };
+                }
+                if (data.delta?.finish_reason) {
+                    yield { type: "finish", reason: this.toFinishReason(data.delta.finish_reason) };
                 }
+                break;
             }
         }
     }
+
+    /**
+     * Map Cohere finish reasons
+     */
+    private toFinishReason(reason: string): LLMFinishReason {
+        switch (reason) {
+            case "COMPLETE":
+            case "STOP_SEQUENCE":
+                return "stop";
+            case "MAX_TOKENS":
+                return "length";
+            case "TOOL_CALL":
+                return "tool_calls";
+            default:
+                return "other";
+        }
+    }
+
+    /**
+     * Map chat messages to Cohere v2 messages
+     */
+    private toCohereMessages(messages: ChatMessage[]): Array<Record<string, unknown>> {
+        return messages.map((message) => {
+            switch (message.role) {
+                case "assistant":
+                    return {
+                        role: "assistant",
+                        ...(message.content ? { content: message.content } : {}),
+                        ...(message.toolCalls && message.toolCalls.length > 0
+                            ? {
+                                tool_calls: message.toolCalls.map((call) => ({
+                                    id: call.id,
+                                    type: "function",
+                                    function: {
+                                        name: call.name,
+                                        arguments: JSON.stringify(call.arguments),
+                                    },
+                                })),
+                            }
+                            : {}),
+                    };
+                case "tool":
+                    return {
+                        role: "tool",
+                        tool_call_id: message.toolCallId || "",
+                        content: message.content,
+                    };
+                default:
+                    return { role: message.role, content: message.content };
+            }
+        });
+    }
+
+    /**
+     * Map tools to Cohere function definitions
+     */
+    private toCohereTools(tools?: ITool[]): Array<Record<string, unknown>> | undefined {
+        if (!tools || tools.length === 0) return undefined;
+
+        return tools.map((tool) => ({
+            type: "function",
+            function: {
+                name: tool.name,
+                description: tool.description,
+                parameters: tool.parameters,
+            },
+        }));
+    }
+
+    private headers(): Record<string, string> {
+        return {
+            "Authorization": `Bearer ${this.apiKey}`,
+            "Content-Type": "application/json",
+            "accept": "application/json",
+        };
+    }
 }
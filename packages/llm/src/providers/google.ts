@@ -1,6 +1,23 @@
-
-import { GoogleGenerativeAI } from "@google/generative-ai";
-import type { ILLMProvider, LLMResponse } from "@ragx/core";
+import {
+    type Content,
+    FinishReason,
+    type FunctionDeclarationSchema,
+    type FunctionDeclarationsTool,
+    GoogleGenerativeAI,
+    type Part,
+    type UsageMetadata,
+} from "@google/generative-ai";
+import type {
+    ChatMessage,
+    ILLMProvider,
+    ITool,
+    LLMFinishReason,
+    LLMGenerateOptions,
+    LLMResponse,
+    LLMStreamEvent,
+    ToolCall,
+} from "@ragx/core";
+import { createToolCallId, splitSystemMessages, toChatMessages, toolNamesById } from "../messages";
 
 export class GoogleProvider implements ILLMProvider {
     private client: GoogleGenerativeAI;
@@ -12,50 +29,190 @@ export class GoogleProvider implements ILLMProvider {
     }
 
     async generate(
-        prompt: string,
-        options?: { temperature?: number; maxTokens?: number },
+        input: string | ChatMessage[],
+        options?: LLMGenerateOptions,
     ): Promise<LLMResponse> {
         const model = this.client.getGenerativeModel({ model: this.model });
+        const { system, conversation } = splitSystemMessages(toChatMessages(input));
+        const tools = this.toGoogleTools(options?.tools);
 
         const generationConfig: { temperature?: number; maxOutputTokens?: number } = {};
         if (options?.temperature !== undefined) generationConfig.temperature = options.temperature;
         if (options?.maxTokens !== undefined) generationConfig.maxOutputTokens = options.maxTokens;
 
         const result = await model.generateContent({
-            contents: [{ role: "user", parts: [{ text: prompt }] }],
+            contents: this.toGoogleContents(conversation),
             generationConfig,
+            ...(system ? { systemInstruction: system } : {}),
+            ...(tools ? { tools } : {}),
         });
 
         const response = await result.response;
+
+        // Gemini does not assign IDs to function calls, so we generate them
+        const toolCalls: ToolCall[] = (response.functionCalls() ?? []).map((call) => ({
+            id: createToolCallId(),
+            name: call.name,
+            arguments: call.args as Record<string, unknown>,
+        }));
         const text = response.text();
+        const usage = response.usageMetadata;
+        const reason = response.candidates?.[0]?.finishReason;
 
-        // Gemini doesn't always provide usage in standard response object easily without beta API
-        // For MVP we might default usage to 0 or estimate if needed
         return {
             content: text,
             model: this.model,
-            // usage: { ... } // Todo: Add usage when available in stable SDK
+            ...(toolCalls.length > 0 ? { toolCalls, finishReason: "tool_calls" as const } : {}),
+            ...(toolCalls.length === 0 && reason ? { finishReason: this.toFinishReason(reason) } : {}),
+            ...(usage
+                ? {
+                    usage: {
+                        promptTokens: usage.promptTokenCount,
+                        completionTokens: usage.candidatesTokenCount,
+                        totalTokens: usage.totalTokenCount,
+                    },
+                }
+                : {}),
         };
     }
 
     async *generateStream(
-        prompt: string,
-        options?: { temperature?: number; maxTokens?: number },
-    ): AsyncGenerator<string, void, unknown> {
+        input: string | ChatMessage[],
+        options?: LLMGenerateOptions,
+    ): AsyncGenerator<LLMStreamEvent, void, unknown> {
         const model = this.client.getGenerativeModel({ model: this.model });
+        const { system, conversation } = splitSystemMessages(toChatMessages(input));
+        const tools = this.toGoogleTools(options?.tools);
 
         const generationConfig: { temperature?: number; maxOutputTokens?: number } = {};
         if (options?.temperature !== undefined) generationConfig.temperature = options.temperature;
         if (options?.maxTokens !== undefined) generationConfig.maxOutputTokens = options.maxTokens;
 
         const result = await model.generateContentStream({
-            contents: [{ role: "user", parts: [{ text: prompt }] }],
+            contents: this.toGoogleContents(conversation),
             generationConfig,
+            ...(system ? { systemInstruction: system } : {}),
+            ...(tools ? { tools } : {}),
         });
 
+        // Gemini streams whole function calls rather than argument fragments
+        let toolIndex = 0;
+        let finishReason: LLMFinishReason | undefined;
+        let usage: UsageMetadata | undefined;
+
         for await (const chunk of result.stream) {
             const chunkText = chunk.text();
-            yield chunkText;
+            if (chunkText) {
+                yield { type: "text_delta", text: chunkText };
+            }
+
+            for (const call of chunk.functionCalls() ?? []) {
+                yield {
+                    type: "tool_call_delta",
+                    index: toolIndex++,
+                    id: createToolCallId(),
+                    name: call.name,
+                    argumentsDelta: JSON.stringify(call.args),
+                };
+            }
+
+            const reason = chunk.candidates?.[0]?.finishReason;
+            if (reason) finishReason = this.toFinishReason(reason);
+            if (chunk.usageMetadata) usage = chunk.usageMetadata;
+        }
+
+        if (usage) {
+            yield {
+                type: "usage",
+                usage: {
+                    promptTokens: usage.promptTokenCount,
+                    completionTokens: usage.candidatesTokenCount,
+                    totalTokens: usage.totalTokenCount,
+                },
+            };
+        }
+        if (finishReason) {
+            // Gemini reports STOP even when it returns function calls
+            yield { type: "finish", reason: toolIndex > 0 ? "tool_calls" : finishReason };
+        }
+    }
+
+    /**
+     * Map chat messages to Gemini contents
+     * Gemini references function results by name, so tool call IDs are resolved to names
+     */
+    private toGoogleContents(messages: ChatMessage[]): Content[] {
+        const toolNames = toolNamesById(messages);
+        const contents: Content[] = [];
+
+        for (const message of messages) {
+            const role = message.role === "assistant" ? "model" : message.role === "tool" ? "function" : "user";
+            const parts: Part[] = [];
+
+            if (message.role === "tool") {
+                parts.push({
+                    functionResponse: {
+                        name: toolNames.get(message.toolCallId || "") || "unknown",
+                        response: { content: message.content },
+                    },
+                });
+            } else {
+                if (message.content) {
+                    parts.push({ text: message.content });
+                }
+                for (const call of message.toolCalls ?? []) {
+                    parts.push({ functionCall: { name: call.name, args: call.arguments } });
+                }
+            }
+
+            if (parts.length === 0) continue;
+
+            const previous = contents[contents.length - 1];
+            if (previous && previous.role === role) {
+                previous.parts.push(...parts);
+            } else {
+                contents.push({ role, parts });
+            }
         }
+
+        return contents;
+    }
+
+    /**
+     * Map Gemini finish reasons
+     */
+    private toFinishReason(reason: FinishReason): LLMFinishReason {
+        switch (reason) {
+            case FinishReason.STOP:
+                return "stop";
+            case FinishReason.MAX_TOKENS:
+                return "length";
+            case FinishReason.SAFETY:
+            case FinishReason.RECITATION:
+            case FinishReason.BLOCKLIST:
+            case FinishReason.PROHIBITED_CONTENT:
+            case FinishReason.SPII:
+                return "content_filter";
+            default:
+                return "other";
+        }
+    }
+
+    /**
+     * Map tools to Gemini function declarations
+     */
+    private toGoogleTools(tools?: ITool[]): FunctionDeclarationsTool[] | undefined {
+        if (!tools || tools.length === 0) return undefined;
+
+        return [
+            {
+                functionDeclarations: tools.map((tool) => ({
+                    name: tool.name,
+                    description: tool.description,
+                    // Gemini accepts an OpenAPI subset of JSON Schema
+                    parameters: tool.parameters as FunctionDeclarationSchema,
+                })),
+            },
+        ];
     }
 }
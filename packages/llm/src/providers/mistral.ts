@@ -1,6 +1,16 @@
-import type { LLMResponse } from "@ragx/core";
+import type {
+    ChatMessage,
+    ITool,
+    LLMFinishReason,
+    LLMGenerateOptions,
+    LLMResponse,
+    LLMStreamEvent,
+    ToolCall,
+} from "@ragx/core";
 import { Mistral } from "@mistralai/mistralai";
+import type { Messages, Tool, ToolCall as MistralToolCall } from "@mistralai/mistralai/models/components";
 import { BaseLLMProvider } from "../base";
+import { createToolCallId, parseToolArguments, toChatMessages } from "../messages";
 
 /**
  * Mistral LLM provider
@@ -19,25 +29,30 @@ export class MistralProvider extends BaseLLMProvider {
      * Generate a response
      */
     async generate(
-        prompt: string,
-        options?: { temperature?: number; maxTokens?: number },
+        input: string | ChatMessage[],
+        options?: LLMGenerateOptions,
     ): Promise<LLMResponse> {
         return this.withRetry(async () => {
+            const tools = this.toMistralTools(options?.tools);
             const completion = await this.client.chat.complete({
                 model: this.model,
-                messages: [{ role: "user", content: prompt }],
+                messages: this.toMistralMessages(toChatMessages(input)),
                 temperature: options?.temperature ?? 0.7,
                 maxTokens: options?.maxTokens,
+                ...(tools ? { tools } : {}),
             });
 
             const choice = completion.choices?.[0];
-            if (!choice?.message?.content) {
+            const toolCalls = this.parseToolCalls(choice?.message?.toolCalls);
+            if (!choice || (!choice.message?.content && toolCalls.length === 0)) {
                 throw new Error("No content in Mistral response");
             }
 
             return {
                 content: (choice.message.content || "") as string,
                 model: completion.model || this.model,
+                ...(toolCalls.length > 0 ? { toolCalls } : {}),
+                finishReason: this.toFinishReason(choice.finishReason),
                 ...(completion.usage
                     ? {
                         usage: {
@@ -55,21 +70,132 @@ export class MistralProvider extends BaseLLMProvider {
      * Generate a streaming response
      */
     async *generateStream(
-        prompt: string,
-        options?: { temperature?: number; maxTokens?: number },
-    ): AsyncGenerator<string, void, unknown> {
+        input: string | ChatMessage[],
+        options?: LLMGenerateOptions,
+    ): AsyncGenerator<LLMStreamEvent, void, unknown> {
+        const tools = this.toMistralTools(options?.tools);
         const stream = await this.client.chat.stream({
             model: this.model,
-            messages: [{ role: "user", content: prompt }],
+            messages: this.toMistralMessages(toChatMessages(input)),
             temperature: options?.temperature ?? 0.7,
             maxTokens: options?.maxTokens,
+            ...(tools ? { tools } : {}),
         });
 
         for await (const chunk of stream) {
-            const content = (chunk.data.choices[0]?.delta?.content || "") as string;
+            const choice = chunk.data.choices[0];
+            const content = (choice?.delta?.content || "") as string;
             if (content) {
-                yield content;
+                yield { type: "text_delta", text: content };
             }
+
+            for (const [position, call] of (choice?.delta?.toolCalls ?? []).entries()) {
+                yield {
+                    type: "tool_call_delta",
+                    index: call.index ?? position,
+                    ...(call.id ? { id: call.id } : {}),
+                    name: call.function.name,
+                    argumentsDelta: typeof call.function.arguments === "string"
+                        ? call.function.arguments
+                        : JSON.stringify(call.function.arguments),
+                };
+            }
+
+            if (chunk.data.usage) {
+                yield {
+                    type: "usage",
+                    usage: {
+                        promptTokens: chunk.data.usage.promptTokens || 0,
+                        completionTokens: chunk.data.usage.completionTokens || 0,
+                        totalTokens: chunk.data.usage.totalTokens || 0,
+                    },
+                };
+            }
+
+            if (choice?.finishReason) {
+                yield { type: "finish", reason: this.toFinishReason(choice.finishReason) };
+            }
+        }
+    }
+
+    /**
+     * Map chat messages to Mistral messages
+     */
+    private toMistralMessages(messages: ChatMessage[]): Messages[] {
+        return messages.map((message): Messages => {
+            switch (message.role) {
+                case "system":
+                    return { role: "system", content: message.content };
+                case "assistant":
+                    return {
+                        role: "assistant",
+                        content: message.content,
+                        ...(message.toolCalls && message.toolCalls.length > 0
+                            ? {
+                                toolCalls: message.toolCalls.map((call) => ({
+                                    id: call.id,
+                                    type: "function" as const,
+                                    function: {
+                                        name: call.name,
+                                        arguments: JSON.stringify(call.arguments),
+                                    },
+                                })),
+                            }
+                            : {}),
+                    };
+                case "tool":
+                    return {
+                        role: "tool",
+                        content: message.content,
+                        toolCallId: message.toolCallId ?? null,
+                    };
+                default:
+                    return { role: "user", content: message.content };
+            }
+        });
+    }
+
+    /**
+     * Map Mistral finish reasons
+     */
+    private toFinishReason(reason: string): LLMFinishReason {
+        switch (reason) {
+            case "stop":
+                return "stop";
+            case "length":
+            case "model_length":
+                return "length";
+            case "tool_calls":
+                return "tool_calls";
+            default:
+                return "other";
         }
     }
+
+    /**
+     * Map tools to Mistral function definitions
+     */
+    private toMistralTools(tools?: ITool[]): Tool[] | undefined {
+        if (!tools || tools.length === 0) return undefined;
+
+        return tools.map((tool) => ({
+            type: "function",
+            function: {
+                name: tool.name,
+                description: tool.description,
+                parameters: tool.parameters,
+            },
+        }));
+    }
+
+    /**
+     * Parse Mistral tool calls
+     */
+    private parseToolCalls(toolCalls: MistralToolCall[] | null | undefined): ToolCall[] {
+        return (toolCalls ?? []).map((call) => ({
+            id: call.id || createToolCallId(),
+            name: call.function.name,
+            arguments: parseToolArguments(call.function.arguments),
+        }));
+    }
 }
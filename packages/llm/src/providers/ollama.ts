@@ -1,5 +1,31 @@
-import type { LLMResponse } from "@ragx/core";
+import type {
+    ChatMessage,
+    ITool,
+    LLMGenerateOptions,
+    LLMResponse,
+    LLMStreamEvent,
+    ToolCall,
+} from "@ragx/core";
 import { BaseLLMProvider } from "../base";
+import { createToolCallId, parseToolArguments, toChatMessages } from "../messages";
+
+interface OllamaToolCall {
+    function: { name: string; arguments?: Record<string, unknown> | string };
+}
+
+/**
+ * Ollama chat response, or one line of a streamed response
+ */
+interface OllamaChatResponse {
+    message?: {
+        content?: string;
+        tool_calls?: OllamaToolCall[];
+    };
+    done?: boolean;
+    done_reason?: string;
+    prompt_eval_count?: number;
+    eval_count?: number;
+}
 
 /**
  * Ollama LLM provider for local development
@@ -18,17 +44,19 @@ export class OllamaProvider extends BaseLLMProvider {
      * Generate a response
      */
     async generate(
-        prompt: string,
-        options?: { temperature?: number; maxTokens?: number },
+        input: string | ChatMessage[],
+        options?: LLMGenerateOptions,
     ): Promise<LLMResponse> {
         return this.withRetry(async () => {
-            const response = await fetch(`${this.baseUrl}/api/generate`, {
+            const tools = this.toOllamaTools(options?.tools);
+            const response = await fetch(`${this.baseUrl}/api/chat`, {
                 method: "POST",
                 headers: { "Content-Type": "application/json" },
                 body: JSON.stringify({
                     model: this.model,
-                    prompt,
+                    messages: this.toOllamaMessages(toChatMessages(input)),
                     stream: false,
+                    ...(tools ? { tools } : {}),
                     options: {
                         ...(options?.temperature !== undefined ? { temperature: options.temperature } : {}),
                         ...(options?.maxTokens ? { num_predict: options.maxTokens } : {}),
@@ -40,11 +68,20 @@ export class OllamaProvider extends BaseLLMProvider {
                 throw new Error(`Ollama API error: ${response.statusText}`);
             }
 
-            const data = await response.json() as any;
+            const data = await response.json() as OllamaChatResponse;
+
+            // Ollama does not assign IDs to tool calls, so we generate them
+            const toolCalls: ToolCall[] = (data.message?.tool_calls ?? []).map((call) => ({
+                id: createToolCallId(),
+                name: call.function.name,
+                arguments: parseToolArguments(call.function.arguments),
+            }));
 
             return {
-                content: data.response || "",
+                content: data.message?.content || "",
                 model: this.model,
+                ...(toolCalls.length > 0 ? { toolCalls } : {}),
+                finishReason: toolCalls.length > 0 ? "tool_calls" : data.done_reason === "length" ? "length" : "stop",
                 usage: {
                     promptTokens: data.prompt_eval_count || 0,
                     completionTokens: data.eval_count || 0,
@@ -58,16 +95,18 @@ export class OllamaProvider extends BaseLLMProvider {
      * Generate a streaming response
      */
     async *generateStream(
-        prompt: string,
-        options?: { temperature?: number; maxTokens?: number },
-    ): AsyncGenerator<string, void, unknown> {
-        const response = await fetch(`${this.baseUrl}/api/generate`, {
+        input: string | ChatMessage[],
+        options?: LLMGenerateOptions,
+    ): AsyncGenerator<LLMStreamEvent, void, unknown> {
+        const tools = this.toOllamaTools(options?.tools);
+        const response = await fetch(`${this.baseUrl}/api/chat`, {
             method: "POST",
             headers: { "Content-Type": "application/json" },
             body: JSON.stringify({
                 model: this.model,
-                prompt,
+                messages: this.toOllamaMessages(toChatMessages(input)),
                 stream: true,
+                ...(tools ? { tools } : {}),
                 options: {
                     ...(options?.temperature !== undefined ? { temperature: options.temperature } : {}),
                     ...(options?.maxTokens ? { num_predict: options.maxTokens } : {}),
@@ -83,23 +122,90 @@ export class OllamaProvider extends BaseLLMProvider {
         if (!reader) throw new Error("No reader for Ollama stream");
 
         const decoder = new TextDecoder();
+        let buffer = "";
+        let toolIndex = 0;
         while (true) {
             const { done, value } = await reader.read();
             if (done) break;
 
-            const chunk = decoder.decode(value, { stream: true });
-            const lines = chunk.split("\n").filter(l => l.trim().length > 0);
+            buffer += decoder.decode(value, { stream: true });
+            const lines = buffer.split("\n");
+            buffer = lines.pop() ?? "";
 
-            for (const line of lines) {
+            for (const line of lines.filter(l => l.trim().length > 0)) {
+                let data: OllamaChatResponse;
                 try {
-                    const data = JSON.parse(line);
-                    if (data.response) {
-                        yield data.response;
-                    }
+                    data = JSON.parse(line) as OllamaChatResponse;
                 } catch (e) {
-                    // Ignore partial lines
+                    // Ignore malformed lines
+                    continue;
+                }
+
+                if (data.message?.content) {
+                    yield { type: "text_delta", text: data.message.content };
+                }
+
+                // Ollama streams whole tool calls without IDs
+                for (const call of data.message?.tool_calls ?? []) {
+                    yield {
+                        type: "tool_call_delta",
+                        index: toolIndex++,
+                        id: createToolCallId(),
+                        name: call.function.name,
+                        argumentsDelta: JSON.stringify(call.function.arguments ?? {}),
+                    };
+                }
+
+                if (data.done) {
+                    const promptTokens = data.prompt_eval_count || 0;
+                    const completionTokens = data.eval_count || 0;
+                    yield {
+                        type: "usage",
+                        usage: {
+                            promptTokens,
+                            completionTokens,
+                            totalTokens: promptTokens + completionTokens,
+                        },
+                    };
+                    yield {
+                        type: "finish",
+                        reason: toolIndex > 0 ? "tool_calls" : data.done_reason === "length" ? "length" : "stop",
+                    };
                 }
             }
         }
     }
+
+    /**
+     * Map chat messages to Ollama chat messages
+     */
+    private toOllamaMessages(messages: ChatMessage[]): Array<Record<string, unknown>> {
+        return messages.map((message) => ({
+            role: message.role,
+            content: message.content,
+            ...(message.toolCalls && message.toolCalls.length > 0
+                ? {
+                    tool_calls: message.toolCalls.map((call) => ({
+                        function: { name: call.name, arguments: call.arguments },
+                    })),
+                }
+                : {}),
+        }));
+    }
+
+    /**
+     * Map tools to Ollama function definitions
+     */
+    private toOllamaTools(tools?: ITool[]): Array<Record<string, unknown>> | undefined {
+        if (!tools || tools.length === 0) return undefined;
+
+        return tools.map((tool) => ({
+            type: "function",
+            function: {
+                name: tool.name,
+                description: tool.description,
+                parameters: tool.parameters,
+            },
+        }));
+    }
 }
@@ -1,6 +1,15 @@
-import type { LLMResponse } from "@ragx/core";
+import type {
+    ChatMessage,
+    ITool,
+    LLMFinishReason,
+    LLMGenerateOptions,
+    LLMResponse,
+    LLMStreamEvent,
+    ToolCall,
+} from "@ragx/core";
 import OpenAI from "openai";
 import { BaseLLMProvider } from "../base";
+import { parseToolArguments, toChatMessages } from "../messages";
 
 /**
  * OpenAI LLM provider
@@ -19,25 +28,30 @@ export class OpenAIProvider extends BaseLLMProvider {
      * Generate a response
      */
     async generate(
-        prompt: string,
-        options?: { temperature?: number; maxTokens?: number },
+        input: string | ChatMessage[],
+        options?: LLMGenerateOptions,
     ): Promise<LLMResponse> {
         return this.withRetry(async () => {
+            const tools = this.toOpenAITools(options?.tools);
             const completion = await this.client.chat.completions.create({
                 model: this.model,
-                messages: [{ role: "user", content: prompt }],
+                messages: this.toOpenAIMessages(toChatMessages(input)),
                 ...(options?.temperature !== undefined ? { temperature: options.temperature } : { temperature: 0.7 }),
                 ...(options?.maxTokens ? { max_tokens: options.maxTokens } : {}),
+                ...(tools ? { tools } : {}),
             });
 
             const choice = completion.choices[0];
-            if (!choice?.message?.content) {
+            const toolCalls = this.parseToolCalls(choice?.message?.tool_calls);
+            if (!choice || (!choice.message?.content && toolCalls.length === 0)) {
                 throw new Error("No content in OpenAI response");
             }
 
             return {
                 content: choice.message.content || "",
                 model: completion.model,
+                ...(toolCalls.length > 0 ? { toolCalls } : {}),
+                finishReason: this.toFinishReason(choice.finish_reason),
                 ...(completion.usage
                     ? {
                         usage: {
@@ -55,22 +69,137 @@ export class OpenAIProvider extends BaseLLMProvider {
      * Generate a streaming response
      */
     async *generateStream(
-        prompt: string,
-        options?: { temperature?: number; maxTokens?: number },
-    ): AsyncGenerator<string, void, unknown> {
+        input: string | ChatMessage[],
+        options?: LLMGenerateOptions,
+    ): AsyncGenerator<LLMStreamEvent, void, unknown> {
+        const tools = this.toOpenAITools(options?.tools);
         const stream = await this.client.chat.completions.create({
             model: this.model,
-            messages: [{ role: "user", content: prompt }],
-            ...(options?.temperature ? { temperature: options.temperature } : {}),
+            messages: this.toOpenAIMessages(toChatMessages(input)),
+            ...(options?.temperature !== undefined ? { temperature: options.temperature } : {}),
             ...(options?.maxTokens ? { max_tokens: options.maxTokens as number } : {}),
+            ...(tools ? { tools } : {}),
             stream: true,
+            stream_options: { include_usage: true },
         });
 
         for await (const chunk of stream) {
-            const content = chunk.choices[0]?.delta?.content;
+            const choice = chunk.choices[0];
+            const content = choice?.delta?.content;
             if (content) {
-                yield content;
+                yield { type: "text_delta", text: content };
             }
+
+            for (const call of choice?.delta?.tool_calls ?? []) {
+                yield {
+                    type: "tool_call_delta",
+                    index: call.index,
+                    ...(call.id ? { id: call.id } : {}),
+                    ...(call.function?.name ? { name: call.function.name } : {}),
+                    ...(call.function?.arguments ? { argumentsDelta: call.function.arguments } : {}),
+                };
+            }
+
+            if (choice?.finish_reason) {
+                yield { type: "finish", reason: this.toFinishReason(choice.finish_reason) };
+            }
+
+            // With include_usage, the final chunk carries usage and no choices
+            if (chunk.usage) {
+                yield {
+                    type: "usage",
+                    usage: {
+                        promptTokens: chunk.usage.prompt_tokens,
+                        completionTokens: chunk.usage.completion_tokens,
+                        totalTokens: chunk.usage.total_tokens,
+                    },
+                };
+            }
+        }
+    }
+
+    /**
+     * Map chat messages to OpenAI message params
+     */
+    private toOpenAIMessages(messages: ChatMessage[]): OpenAI.Chat.ChatCompletionMessageParam[] {
+        return messages.map((message): OpenAI.Chat.ChatCompletionMessageParam => {
+            switch (message.role) {
+                case "system":
+                    return { role: "system", content: message.content };
+                case "assistant":
+                    return {
+                        role: "assistant",
+                        content: message.content || null,
+                        ...(message.toolCalls && message.toolCalls.length > 0
+                            ? {
+                                tool_calls: message.toolCalls.map((call) => ({
+                                    id: call.id,
+                                    type: "function" as const,
+                                    function: {
+                                        name: call.name,
+                                        arguments: JSON.stringify(call.arguments),
+                                    },
+                                })),
+                            }
+                            : {}),
+                    };
+                case "tool":
+                    return {
+                        role: "tool",
+                        tool_call_id: message.toolCallId || "",
+                        content: message.content,
+                    };
+                default:
+                    return { role: "user", content: message.content };
+            }
+        });
+    }
+
+    /**
+     * Map tools to OpenAI function definitions
+     */
+    private toOpenAITools(tools?: ITool[]): OpenAI.Chat.ChatCompletionTool[] | undefined {
+        if (!tools || tools.length === 0) return undefined;
+
+        return tools.map((tool) => ({
+            type: "function",
+            function: {
+                name: tool.name,
+                description: tool.description,
+                parameters: tool.parameters,
+            },
+        }));
+    }
+
+    /**
+     * Map OpenAI finish reasons
+     */
+    private toFinishReason(reason: string): LLMFinishReason {
+        switch (reason) {
+            case "stop":
+                return "stop";
+            case "length":
+                return "length";
+            case "tool_calls":
+            case "function_call":
+                return "tool_calls";
+            case "content_filter":
+                return "content_filter";
+            default:
+                return "other";
         }
     }
+
+    /**
+     * Parse OpenAI tool calls
+     */
+    private parseToolCalls(
+        toolCalls: OpenAI.Chat.ChatCompletionMessageToolCall[] | undefined,
+    ): ToolCall[] {
+        return (toolCalls ?? []).map((call) => ({
+            id: call.id,
+            name: call.function.name,
+            arguments: parseToolArguments(call.function.arguments),
+        }));
+    }
 }
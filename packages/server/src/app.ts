@@ -2,15 +2,19 @@ import { cors } from "@elysiajs/cors";
 import { swagger } from "@elysiajs/swagger";
 import { Elysia } from "elysia";
 import type { RagxConfig } from "@ragx/config";
-import { RAGEngine } from "@ragx/core";
+import { AgentRouter, IngestionQueue, RAGEngine, createAnalyzer } from "@ragx/core";
 import { createEmbeddingProvider } from "@ragx/embeddings";
-import { createLLMProvider, createReranker } from "@ragx/llm";
+import { createLLMProvider, createReranker, getRerankerConfig } from "@ragx/llm";
 import { createVectorStore } from "@ragx/vectordb";
 import { AgentRegistry } from "./registry";
 import { createChatRoutes } from "./routes/chat";
 import { createHealthRoutes } from "./routes/health";
 import { createIngestRoutes } from "./routes/ingest";
 import { createSearchRoutes } from "./routes/search";
+import { createSessionRoutes } from "./routes/sessions";
+import { createDocumentRoutes } from "./routes/documents";
+import { createJobRoutes } from "./routes/jobs";
+import { createRouterRoutes } from "./routes/router";
 
 /**
  * Server options
@@ -26,7 +30,10 @@ export interface ServerOptions {
 export function createServer(options: ServerOptions): Elysia {
     const { config, apiKeys } = options;
     const registry = new AgentRegistry();
+    const ingestionQueue = new IngestionQueue();
     const startTime = Date.now();
+    const routerConfig = config.server?.router;
+    let router: AgentRouter | undefined;
 
     // Initialize agents
     for (const agentConfig of config.agents) {
@@ -57,20 +64,32 @@ export function createServer(options: ServerOptions): Elysia {
             const vectorStore = createVectorStore(agentConfig.vectorStore);
 
             // Optional Reranker
-            let reranker: any;
-            if (agentConfig.retrieval?.rerankModel) {
-                const cohereApiKey = apiKeys["cohere"] || llmApiKey;
-                if (cohereApiKey) {
-                    reranker = createReranker(agentConfig.retrieval.rerankModel, cohereApiKey);
-                    console.log(`🔍 Enabled reranking for ${agentConfig.name} using ${agentConfig.retrieval.rerankModel}`);
-                }
+            const rerankerConfig = getRerankerConfig(agentConfig.retrieval);
+            const reranker = rerankerConfig
+                ? createReranker(rerankerConfig, {
+                    cohereApiKey: apiKeys["cohere"],
+                    llm,
+                    embeddings,
+                    analyzer: agentConfig.vectorStore.analyzer,
+                })
+                : undefined;
+            if (rerankerConfig) {
+                console.log(`🔍 Enabled ${rerankerConfig.provider} reranking for ${agentConfig.name}`);
             }
 
             // Create RAG engine
             const ragEngine = new RAGEngine(agentConfig, llm, embeddings, vectorStore, reranker);
 
             // Register agent
-            registry.register(agentConfig.name, ragEngine);
+            registry.register(agentConfig.name, ragEngine, agentConfig.description);
+
+            // The router routes and answers with the configured agent's providers, or the first agent's
+            if (!router && (!routerConfig?.agent || routerConfig.agent === agentConfig.name)) {
+                router = new AgentRouter(agentConfig.model, llm, embeddings, {
+                    ...routerConfig,
+                    analyzer: createAnalyzer(agentConfig.vectorStore.analyzer),
+                });
+            }
 
             console.log(`✅ Initialized agent: ${agentConfig.name}`);
         } catch (error) {
@@ -79,6 +98,10 @@ export function createServer(options: ServerOptions): Elysia {
         }
     }
 
+    if (routerConfig?.agent && !router) {
+        throw new Error(`Router agent "${routerConfig.agent}" is not an enabled agent`);
+    }
+
     // Create Elysia app
     const app = new Elysia()
         // Add CORS
@@ -99,8 +122,12 @@ export function createServer(options: ServerOptions): Elysia {
                     },
                     tags: [
                         { name: "Chat", description: "Chat with RAG agents" },
+                        { name: "Router", description: "Route questions across agents" },
                         { name: "Ingest", description: "Ingest documents" },
                         { name: "Search", description: "Semantic search" },
+                        { name: "Sessions", description: "Conversation sessions" },
+                        { name: "Documents", description: "Ingested document catalog" },
+                        { name: "Jobs", description: "Background ingestion jobs" },
                         { name: "Health", description: "Health and metrics" },
                     ],
                 },
@@ -108,8 +135,12 @@ export function createServer(options: ServerOptions): Elysia {
         )
         // Add routes
         .use(createChatRoutes(registry))
-        .use(createIngestRoutes(registry))
+        .use(createRouterRoutes(registry, router))
+        .use(createIngestRoutes(registry, ingestionQueue, config.server?.upload))
         .use(createSearchRoutes(registry))
+        .use(createSessionRoutes(registry))
+        .use(createDocumentRoutes(registry))
+        .use(createJobRoutes(ingestionQueue))
         .use(createHealthRoutes(registry, startTime))
         // Authentication Middleware
         .derive(({ request, set }) => {
@@ -7,6 +7,10 @@ export { AgentRegistry } from "./registry";
 
 // Route exports
 export { createChatRoutes } from "./routes/chat";
+export type { ChatStreamEvent } from "./routes/chat";
 export { createIngestRoutes } from "./routes/ingest";
 export { createSearchRoutes } from "./routes/search";
+export { createSessionRoutes } from "./routes/sessions";
+export { createDocumentRoutes } from "./routes/documents";
+export { createJobRoutes } from "./routes/jobs";
 export { createHealthRoutes } from "./routes/health";
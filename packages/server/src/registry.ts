@@ -1,16 +1,22 @@
-import type { RAGEngine } from "@ragx/core";
+import type { RAGEngine, RoutableAgent } from "@ragx/core";
 
 /**
  * Agent registry to store RAG engines by agent name
  */
 export class AgentRegistry {
     private agents: Map<string, RAGEngine> = new Map();
+    private descriptions: Map<string, string> = new Map();
 
     /**
      * Register a RAG engine for an agent
      */
-    register(name: string, engine: RAGEngine): void {
+    register(name: string, engine: RAGEngine, description?: string): void {
         this.agents.set(name, engine);
+        if (description) {
+            this.descriptions.set(name, description);
+        } else {
+            this.descriptions.delete(name);
+        }
     }
 
     /**
@@ -34,10 +40,22 @@ export class AgentRegistry {
         return Array.from(this.agents.keys());
     }
 
+    /**
+     * Get the agents with their descriptions for query routing
+     */
+    getRoutableAgents(): RoutableAgent[] {
+        return Array.from(this.agents, ([name, engine]) => ({
+            name,
+            description: this.descriptions.get(name),
+            engine,
+        }));
+    }
+
     /**
      * Remove an agent
      */
     remove(name: string): boolean {
+        this.descriptions.delete(name);
         return this.agents.delete(name);
     }
 
@@ -46,5 +64,6 @@ export class AgentRegistry {
      */
     clear(): void {
         this.agents.clear();
+        this.descriptions.clear();
     }
 }
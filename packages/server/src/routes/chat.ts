@@ -1,4 +1,13 @@
 import { Elysia, type Context } from "elysia";
+import {
+    MetadataFilterError,
+    validateMetadataFilter,
+    type InsufficientContextReport,
+    type MetadataFilter,
+    type RAGResponse,
+    type RAGStep,
+    type RAGStreamEvent,
+} from "@ragx/core";
 import type { AgentRegistry } from "../registry";
 
 /**
@@ -6,9 +15,10 @@ import type { AgentRegistry } from "../registry";
  */
 interface ChatRequest {
     message: string;
-    sessionId?: string; // Support for conversation memory
+    sessionId?: string; // Support for conversation memory; a new session is created when omitted
     topK?: number;
     temperature?: number;
+    filter?: MetadataFilter; // Restrict retrieval to chunks whose metadata matches
     stream?: boolean;
 }
 
@@ -16,6 +26,7 @@ interface ChatRequest {
  * Chat response
  */
 interface ChatResponse {
+    sessionId: string;
     answer: string;
     sources: Array<{
         content: string;
@@ -23,6 +34,10 @@ interface ChatResponse {
         score: number;
     }>;
     contextSufficient: boolean;
+    /** Which step removed the candidates when no context was found */
+    insufficientContext?: InsufficientContextReport;
+    /** Intermediate steps of a multi-hop answer */
+    steps?: RAGStep[];
     usage?: {
         promptTokens: number;
         completionTokens: number;
@@ -30,6 +45,29 @@ interface ChatResponse {
     };
 }
 
+/**
+ * Server-sent event emitted when `stream` is true
+ *
+ * Each event is sent as a `data:` line holding the JSON payload, in this order:
+ * - `step`: a multi-hop sub-question with its intermediate answer and sources, once per step
+ * - `retrieval`: sources used to build the context, sent before generation starts
+ * - `tool_call_started` / `tool_call_finished`: tool executions requested by the model
+ * - `token`: answer text delta
+ * - `done`: the complete response with session ID, usage, cost and trace ID; always the last event on success
+ * - `error`: sent instead of `done` when the query fails
+ */
+export type ChatStreamEvent =
+    | RAGStreamEvent
+    | ({ type: "done"; sessionId: string } & RAGResponse)
+    | { type: "error"; error: string; message: string };
+
+/**
+ * Format a chat stream event as an SSE message
+ */
+function toSSE(event: ChatStreamEvent): string {
+    return `data: ${JSON.stringify(event)}\n\n`;
+}
+
 /**
  * Create chat routes for agents
  */
@@ -58,9 +96,22 @@ export function createChatRoutes(registry: AgentRegistry) {
                 };
             }
 
-            const sessionId = request.sessionId || "default-session";
+            let filter: MetadataFilter | undefined;
+            try {
+                if (request.filter !== undefined) filter = validateMetadataFilter(request.filter);
+            } catch (error) {
+                set.status = 400;
+                return {
+                    error: "Invalid request",
+                    message: (error as MetadataFilterError).message,
+                };
+            }
 
             try {
+                // Callers without a session get a fresh one instead of sharing history
+                const sessionId = request.sessionId || await agent.getMemoryManager().createSession();
+                set.headers["X-Session-Id"] = sessionId;
+
                 // Handle streaming
                 if (request.stream) {
                     set.headers["Content-Type"] = "text/event-stream";
@@ -72,15 +123,27 @@ export function createChatRoutes(registry: AgentRegistry) {
                         const generator = agent.queryStream(request.message, {
                             sessionId,
                             ...(request.topK ? { topK: request.topK } : {}),
-                            ...(request.temperature ? { temperature: request.temperature } : {}),
+                            ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+                            ...(filter ? { filter } : {}),
                         });
 
-                        for await (const chunk of generator) {
-                            yield `data: ${JSON.stringify({ type: "chunk", content: chunk })}\n\n`;
+                        try {
+                            while (true) {
+                                const { value, done } = await generator.next();
+                                if (done) {
+                                    yield toSSE({ type: "done", sessionId, ...value });
+                                    break;
+                                }
+                                yield toSSE(value);
+                            }
+                        } catch (error) {
+                            // Headers are already sent, so failures are reported in-band
+                            yield toSSE({
+                                type: "error",
+                                error: "Internal server error",
+                                message: error instanceof Error ? error.message : "Unknown error",
+                            });
                         }
-
-                        // Send final response or "done" event
-                        yield `data: ${JSON.stringify({ type: "done" })}\n\n`;
                     };
 
                     return stream();
@@ -90,11 +153,21 @@ export function createChatRoutes(registry: AgentRegistry) {
                 const response = await agent.query(request.message, {
                     sessionId,
                     ...(request.topK ? { topK: request.topK } : {}),
-                    ...(request.temperature ? { temperature: request.temperature } : {}),
+                    ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+                    ...(filter ? { filter } : {}),
                 });
 
-                return response as ChatResponse;
+                return { ...response, sessionId } as ChatResponse;
             } catch (error) {
+                // Stores reject filters they cannot express
+                if (error instanceof MetadataFilterError) {
+                    set.status = 400;
+                    return {
+                        error: "Invalid request",
+                        message: error.message,
+                    };
+                }
+
                 set.status = 500;
                 return {
                     error: "Internal server error",
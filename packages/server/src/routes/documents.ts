@@ -0,0 +1,114 @@
+import { Elysia, type Context } from "elysia";
+import type { AgentRegistry } from "../registry";
+
+/**
+ * Bulk delete request body
+ */
+interface DeleteDocumentsRequest {
+    documentIds: string[];
+}
+
+/**
+ * Create document catalog routes for agents
+ */
+export function createDocumentRoutes(registry: AgentRegistry) {
+    return new Elysia({ prefix: "/api/agents" })
+        .get("/:agentName/documents", async ({ params, set }: Context) => {
+            const { agentName } = params as { agentName: string };
+
+            const agent = registry.get(agentName);
+            if (!agent) {
+                set.status = 404;
+                return {
+                    error: "Agent not found",
+                    message: `Agent "${agentName}" does not exist`,
+                };
+            }
+
+            const documents = await agent.listDocuments();
+            return {
+                documents,
+                count: documents.length,
+            };
+        })
+        .get("/:agentName/documents/:documentId", async ({ params, set }: Context) => {
+            const { agentName, documentId } = params as { agentName: string; documentId: string };
+
+            const agent = registry.get(agentName);
+            if (!agent) {
+                set.status = 404;
+                return {
+                    error: "Agent not found",
+                    message: `Agent "${agentName}" does not exist`,
+                };
+            }
+
+            const document = await agent.getDocument(documentId);
+            if (!document) {
+                set.status = 404;
+                return {
+                    error: "Document not found",
+                    message: `Document "${documentId}" does not exist`,
+                };
+            }
+
+            return document;
+        })
+        .delete("/:agentName/documents/:documentId", async ({ params, set }: Context) => {
+            const { agentName, documentId } = params as { agentName: string; documentId: string };
+
+            const agent = registry.get(agentName);
+            if (!agent) {
+                set.status = 404;
+                return {
+                    error: "Agent not found",
+                    message: `Agent "${agentName}" does not exist`,
+                };
+            }
+
+            if (!await agent.getDocument(documentId)) {
+                set.status = 404;
+                return {
+                    error: "Document not found",
+                    message: `Document "${documentId}" does not exist`,
+                };
+            }
+
+            await agent.deleteDocuments([documentId]);
+            return {
+                documentId,
+                deleted: true,
+            };
+        })
+        .delete("/:agentName/documents", async ({ params, body, set }: Context) => {
+            const { agentName } = params as { agentName: string };
+            const request = body as DeleteDocumentsRequest | undefined;
+
+            const agent = registry.get(agentName);
+            if (!agent) {
+                set.status = 404;
+                return {
+                    error: "Agent not found",
+                    message: `Agent "${agentName}" does not exist`,
+                };
+            }
+
+            if (
+                !Array.isArray(request?.documentIds)
+                || request.documentIds.length === 0
+                || !request.documentIds.every((id) => typeof id === "string")
+            ) {
+                set.status = 400;
+                return {
+                    error: "Invalid request",
+                    message: "documentIds must be a non-empty array of strings",
+                };
+            }
+
+            await agent.deleteDocuments(request.documentIds);
+            return {
+                documentIds: request.documentIds,
+                deleted: true,
+            };
+        });
+}
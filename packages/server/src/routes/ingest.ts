@@ -1,7 +1,23 @@
 import { Elysia, type Context } from "elysia";
-import type { Document } from "@ragx/core";
+import path from "node:path";
+import type { UploadConfig } from "@ragx/config";
+import type { Document, IngestionQueue, IngestionJobStatus } from "@ragx/core";
+import { createFileLoader, SUPPORTED_FILE_EXTENSIONS } from "@ragx/document-loaders";
 import type { AgentRegistry } from "../registry";
 
+/**
+ * Upload limits used when the server config sets none
+ */
+const DEFAULT_MAX_FILE_SIZE = 10 * 1024 * 1024;
+const DEFAULT_MAX_FILES = 20;
+
+/**
+ * Allowance per file for multipart boundaries and part headers
+ */
+const MULTIPART_OVERHEAD = 64 * 1024;
+
+const UPLOAD_PATH = /^\/api\/agents\/[^/]+\/ingest\/upload\/?$/;
+
 /**
  * Ingest request body
  */
@@ -16,17 +32,90 @@ interface IngestRequest {
 
 /**
  * Ingest response
+ * Documents are ingested in the background; poll `statusUrl` for progress
  */
 interface IngestResponse {
-    processed: number;
-    chunks: number;
+    jobId: string;
+    status: IngestionJobStatus;
+    total: number;
+    statusUrl: string;
+}
+
+/**
+ * Outcome of a single uploaded file
+ */
+interface UploadFileResult {
+    file: string;
+    status: "accepted" | "rejected";
+    /** Documents extracted from the file */
+    documents?: number;
+    error?: string;
+}
+
+/**
+ * Extract documents from an uploaded file
+ * The document ID derives from the agent and file name, so uploading a file again updates it in place
+ */
+async function loadUpload(agentName: string, file: File, maxFileSize: number): Promise<{ result: UploadFileResult; documents: Document[] }> {
+    const name = path.basename(file.name || "upload");
+    const reject = (error: string) => ({ result: { file: name, status: "rejected" as const, error }, documents: [] });
+
+    if (file.size > maxFileSize) {
+        return reject(`File exceeds the ${maxFileSize} byte limit`);
+    }
+
+    const loader = createFileLoader(name, {
+        data: new Uint8Array(await file.arrayBuffer()),
+        mimeType: file.type,
+        id: `upload:${agentName}/${name}`,
+    });
+    if (!loader) {
+        return reject(`Unsupported file type; supported extensions are ${SUPPORTED_FILE_EXTENSIONS.join(", ")}`);
+    }
+
+    try {
+        const documents = (await loader.load()).filter((document) => document.content.trim().length > 0);
+        if (documents.length === 0) {
+            return reject("No text could be extracted from the file");
+        }
+        return { result: { file: name, status: "accepted", documents: documents.length }, documents };
+    } catch (error) {
+        return reject(`Failed to parse file: ${error instanceof Error ? error.message : "Unknown error"}`);
+    }
 }
 
 /**
  * Create ingest routes for agents
  */
-export function createIngestRoutes(registry: AgentRegistry) {
+export function createIngestRoutes(registry: AgentRegistry, queue: IngestionQueue, upload?: UploadConfig) {
+    const maxFileSize = upload?.maxFileSize ?? DEFAULT_MAX_FILE_SIZE;
+    const maxFiles = upload?.maxFiles ?? DEFAULT_MAX_FILES;
+    const maxRequestSize = maxFiles * (maxFileSize + MULTIPART_OVERHEAD);
+
     return new Elysia({ prefix: "/api/agents" })
+        // Reject oversized uploads from Content-Length before the multipart body is buffered
+        // Without a Content-Length the size is unknown until the whole body is read, so it is required
+        .onRequest(({ request, set }) => {
+            if (request.method !== "POST" || !UPLOAD_PATH.test(new URL(request.url).pathname)) return;
+
+            const header = request.headers.get("content-length");
+            if (header === null) {
+                set.status = 411;
+                return {
+                    error: "Length required",
+                    message: "Uploads must send a Content-Length header",
+                };
+            }
+
+            const length = Number(header);
+            if (!Number.isFinite(length) || length > maxRequestSize) {
+                set.status = 413;
+                return {
+                    error: "Payload too large",
+                    message: `Uploads are limited to ${maxFiles} files of ${maxFileSize} bytes`,
+                };
+            }
+        })
         .post("/:agentName/ingest", async ({ params, body, set }: Context) => {
             const { agentName } = params as { agentName: string };
             const request = body as IngestRequest;
@@ -69,17 +158,84 @@ export function createIngestRoutes(registry: AgentRegistry) {
                 }
             }
 
-            try {
-                // Ingest documents
-                const result = await agent.ingest(request.documents as Document[]);
+            const job = queue.enqueue(agentName, agent, request.documents as Document[]);
+
+            set.status = 202;
+            return {
+                jobId: job.id,
+                status: job.status,
+                total: job.total,
+                statusUrl: `/api/jobs/${job.id}`,
+            } as IngestResponse;
+        })
+        .post("/:agentName/ingest/upload", async ({ params, body, set }: Context) => {
+            const { agentName } = params as { agentName: string };
 
-                return result as IngestResponse;
-            } catch (error) {
-                set.status = 500;
+            const agent = registry.get(agentName);
+            if (!agent) {
+                set.status = 404;
+                return {
+                    error: "Agent not found",
+                    message: `Agent "${agentName}" does not exist`,
+                };
+            }
+
+            // Every file field of the multipart form is ingested
+            const files = Object.values((body ?? {}) as Record<string, unknown>)
+                .flat()
+                .filter((value): value is File => value instanceof File);
+
+            if (files.length === 0) {
+                set.status = 400;
+                return {
+                    error: "Invalid request",
+                    message: "Upload at least one file as multipart/form-data",
+                };
+            }
+
+            if (files.length > maxFiles) {
+                set.status = 413;
+                return {
+                    error: "Too many files",
+                    message: `At most ${maxFiles} files can be uploaded per request`,
+                };
+            }
+
+            const results: UploadFileResult[] = [];
+            const documents: Document[] = [];
+            const names = new Set<string>();
+            for (const file of files) {
+                // IDs derive from the file name, so a second file with the same name would replace the first
+                const name = path.basename(file.name || "upload");
+                if (names.has(name)) {
+                    results.push({ file: name, status: "rejected", error: "Another file in this upload has the same name" });
+                    continue;
+                }
+                names.add(name);
+
+                const loaded = await loadUpload(agentName, file, maxFileSize);
+                results.push(loaded.result);
+                documents.push(...loaded.documents);
+            }
+
+            if (documents.length === 0) {
+                set.status = 400;
                 return {
-                    error: "Internal server error",
-                    message: error instanceof Error ? error.message : "Unknown error",
+                    error: "Invalid request",
+                    message: "None of the uploaded files could be ingested",
+                    files: results,
                 };
             }
+
+            const job = queue.enqueue(agentName, agent, documents);
+
+            set.status = 202;
+            return {
+                jobId: job.id,
+                status: job.status,
+                total: job.total,
+                statusUrl: `/api/jobs/${job.id}`,
+                files: results,
+            } as IngestResponse & { files: UploadFileResult[] };
         });
 }
@@ -0,0 +1,47 @@
+import { Elysia, type Context } from "elysia";
+import type { IngestionQueue } from "@ragx/core";
+
+/**
+ * Create ingestion job routes
+ */
+export function createJobRoutes(queue: IngestionQueue) {
+    return new Elysia({ prefix: "/api/jobs" })
+        .get("/:jobId", ({ params, set }: Context) => {
+            const { jobId } = params as { jobId: string };
+
+            const job = queue.get(jobId);
+            if (!job) {
+                set.status = 404;
+                return {
+                    error: "Job not found",
+                    message: `Job "${jobId}" does not exist`,
+                };
+            }
+
+            return job;
+        })
+        .post("/:jobId/retry", ({ params, set }: Context) => {
+            const { jobId } = params as { jobId: string };
+
+            const job = queue.get(jobId);
+            if (!job) {
+                set.status = 404;
+                return {
+                    error: "Job not found",
+                    message: `Job "${jobId}" does not exist`,
+                };
+            }
+
+            const retried = queue.retry(jobId);
+            if (!retried) {
+                set.status = 409;
+                return {
+                    error: "Nothing to retry",
+                    message: `Job "${jobId}" is ${job.status} and has no failed documents to retry`,
+                };
+            }
+
+            set.status = 202;
+            return retried;
+        });
+}
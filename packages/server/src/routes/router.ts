@@ -0,0 +1,101 @@
+import { Elysia, type Context } from "elysia";
+import {
+    MetadataFilterError,
+    validateMetadataFilter,
+    type AgentRouter,
+    type MetadataFilter,
+} from "@ragx/core";
+import type { AgentRegistry } from "../registry";
+
+/**
+ * Routed chat request body
+ */
+interface RouteRequest {
+    message: string;
+    agents?: string[]; // Restrict routing to these agents
+    topK?: number;
+    temperature?: number;
+    filter?: MetadataFilter; // Restrict retrieval to chunks whose metadata matches
+}
+
+/**
+ * Create the query routing endpoint
+ * The router picks the agents for a question, retrieves from them and answers once
+ */
+export function createRouterRoutes(registry: AgentRegistry, router: AgentRouter | undefined) {
+    return new Elysia({ prefix: "/api" })
+        .post("/route", async ({ body, set }: Context) => {
+            const request = body as RouteRequest;
+
+            if (!router) {
+                set.status = 404;
+                return {
+                    error: "Router not available",
+                    message: "No agents are registered",
+                };
+            }
+
+            // Validate request
+            if (!request.message || typeof request.message !== "string") {
+                set.status = 400;
+                return {
+                    error: "Invalid request",
+                    message: "Message is required and must be a string",
+                };
+            }
+
+            if (request.agents !== undefined && (!Array.isArray(request.agents) || request.agents.length === 0)) {
+                set.status = 400;
+                return {
+                    error: "Invalid request",
+                    message: "agents must be a non-empty array of agent names",
+                };
+            }
+
+            const unknown = request.agents?.filter((name) => !registry.has(name)) ?? [];
+            if (unknown.length > 0) {
+                set.status = 404;
+                return {
+                    error: "Agent not found",
+                    message: `Agent "${unknown[0]}" does not exist`,
+                };
+            }
+
+            let filter: MetadataFilter | undefined;
+            try {
+                if (request.filter !== undefined) filter = validateMetadataFilter(request.filter);
+            } catch (error) {
+                set.status = 400;
+                return {
+                    error: "Invalid request",
+                    message: (error as MetadataFilterError).message,
+                };
+            }
+
+            const agents = registry.getRoutableAgents()
+                .filter((agent) => !request.agents || request.agents.includes(agent.name));
+
+            try {
+                return await router.query(request.message, agents, {
+                    ...(request.topK ? { topK: request.topK } : {}),
+                    ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+                    ...(filter ? { filter } : {}),
+                });
+            } catch (error) {
+                // Stores reject filters they cannot express
+                if (error instanceof MetadataFilterError) {
+                    set.status = 400;
+                    return {
+                        error: "Invalid request",
+                        message: error.message,
+                    };
+                }
+
+                set.status = 500;
+                return {
+                    error: "Internal server error",
+                    message: error instanceof Error ? error.message : "Unknown error",
+                };
+            }
+        });
+}
@@ -1,4 +1,5 @@
 import { Elysia, type Context } from "elysia";
+import { MetadataFilterError, validateMetadataFilter, type MetadataFilter } from "@ragx/core";
 import type { AgentRegistry } from "../registry";
 
 /**
@@ -8,6 +9,7 @@ interface SearchQuery {
     query: string;
     topK?: string;
     scoreThreshold?: string;
+    filter?: string; // JSON-encoded metadata filter
 }
 
 /**
@@ -38,22 +40,56 @@ export function createSearchRoutes(registry: AgentRegistry) {
                 };
             }
 
+            // Omitted thresholds fall back to the agent's retrieval config
+            const scoreThreshold = searchQuery.scoreThreshold
+                ? Number.parseFloat(searchQuery.scoreThreshold)
+                : undefined;
+            if (scoreThreshold !== undefined && (Number.isNaN(scoreThreshold) || scoreThreshold < 0 || scoreThreshold > 1)) {
+                set.status = 400;
+                return {
+                    error: "Invalid request",
+                    message: "scoreThreshold must be a number between 0 and 1",
+                };
+            }
+
+            let filter: MetadataFilter | undefined;
+            if (searchQuery.filter) {
+                try {
+                    filter = validateMetadataFilter(JSON.parse(searchQuery.filter));
+                } catch (error) {
+                    set.status = 400;
+                    return {
+                        error: "Invalid request",
+                        message: error instanceof MetadataFilterError ? error.message : "Filter must be valid JSON",
+                    };
+                }
+            }
+
             try {
                 const topK = searchQuery.topK ? Number.parseInt(searchQuery.topK, 10) : 5;
-                const scoreThreshold = searchQuery.scoreThreshold
-                    ? Number.parseFloat(searchQuery.scoreThreshold)
-                    : 0.7;
-                console.log(`Searching with threshold: ${scoreThreshold}`);
 
-                // Use the query method but only return sources
-                const response = await agent.query(searchQuery.query, { topK });
+                // Retrieval only; the LLM is not asked to answer
+                const sources = await agent.retrieve(searchQuery.query, {
+                    topK,
+                    ...(scoreThreshold !== undefined ? { scoreThreshold } : {}),
+                    ...(filter ? { filter } : {}),
+                });
 
                 return {
                     query: searchQuery.query,
-                    sources: response.sources,
-                    count: response.sources.length,
+                    sources,
+                    count: sources.length,
                 };
             } catch (error) {
+                // Stores reject filters they cannot express
+                if (error instanceof MetadataFilterError) {
+                    set.status = 400;
+                    return {
+                        error: "Invalid request",
+                        message: error.message,
+                    };
+                }
+
                 set.status = 500;
                 return {
                     error: "Internal server error",
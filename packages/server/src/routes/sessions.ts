@@ -0,0 +1,168 @@
+import { Elysia, type Context } from "elysia";
+import type { ConversationSession } from "@ragx/core";
+import type { AgentRegistry } from "../registry";
+
+/**
+ * Session export query parameters
+ */
+interface ExportQuery {
+    format?: "json" | "markdown";
+}
+
+/**
+ * Format a session transcript as Markdown
+ */
+function toMarkdown(agentName: string, sessionId: string, session: ConversationSession): string {
+    const lines = [`# ${agentName} session ${sessionId}`, ""];
+
+    if (session.summary) {
+        lines.push("## Summary", "", session.summary, "");
+    }
+
+    lines.push("## Messages", "");
+    for (const message of session.messages) {
+        lines.push(`**${message.role}** (${message.timestamp.toISOString()})`, "", message.content, "");
+    }
+
+    return lines.join("\n");
+}
+
+/**
+ * Create session routes for agents
+ * Each agent's memory store only holds its own sessions, so a route never reaches another agent's
+ */
+export function createSessionRoutes(registry: AgentRegistry) {
+    return new Elysia({ prefix: "/api/agents" })
+        .post("/:agentName/sessions", async ({ params, set }: Context) => {
+            const { agentName } = params as { agentName: string };
+
+            const agent = registry.get(agentName);
+            if (!agent) {
+                set.status = 404;
+                return {
+                    error: "Agent not found",
+                    message: `Agent "${agentName}" does not exist`,
+                };
+            }
+
+            const sessionId = await agent.getMemoryManager().createSession();
+            set.status = 201;
+            return { sessionId };
+        })
+        .get("/:agentName/sessions", async ({ params, set }: Context) => {
+            const { agentName } = params as { agentName: string };
+
+            const agent = registry.get(agentName);
+            if (!agent) {
+                set.status = 404;
+                return {
+                    error: "Agent not found",
+                    message: `Agent "${agentName}" does not exist`,
+                };
+            }
+
+            const sessions = await agent.getMemoryManager().listSessions();
+            return {
+                sessions,
+                count: sessions.length,
+            };
+        })
+        .get("/:agentName/sessions/:sessionId", async ({ params, set }: Context) => {
+            const { agentName, sessionId } = params as { agentName: string; sessionId: string };
+
+            const agent = registry.get(agentName);
+            if (!agent) {
+                set.status = 404;
+                return {
+                    error: "Agent not found",
+                    message: `Agent "${agentName}" does not exist`,
+                };
+            }
+
+            const session = await agent.getMemoryManager().getSession(sessionId);
+            if (!session) {
+                set.status = 404;
+                return {
+                    error: "Session not found",
+                    message: `Session "${sessionId}" does not exist`,
+                };
+            }
+
+            return {
+                sessionId,
+                ...session,
+            };
+        })
+        .get("/:agentName/sessions/:sessionId/export", async ({ params, query, set }: Context) => {
+            const { agentName, sessionId } = params as { agentName: string; sessionId: string };
+            const { format = "json" } = query as unknown as ExportQuery;
+
+            const agent = registry.get(agentName);
+            if (!agent) {
+                set.status = 404;
+                return {
+                    error: "Agent not found",
+                    message: `Agent "${agentName}" does not exist`,
+                };
+            }
+
+            if (format !== "json" && format !== "markdown") {
+                set.status = 400;
+                return {
+                    error: "Invalid request",
+                    message: "Format must be json or markdown",
+                };
+            }
+
+            const session = await agent.getMemoryManager().getSession(sessionId);
+            if (!session) {
+                set.status = 404;
+                return {
+                    error: "Session not found",
+                    message: `Session "${sessionId}" does not exist`,
+                };
+            }
+
+            const extension = format === "markdown" ? "md" : "json";
+            set.headers["Content-Disposition"] = `attachment; filename="${agentName}-${sessionId}.${extension}"`;
+
+            if (format === "markdown") {
+                set.headers["Content-Type"] = "text/markdown; charset=utf-8";
+                return toMarkdown(agentName, sessionId, session);
+            }
+
+            return {
+                agent: agentName,
+                sessionId,
+                exportedAt: new Date(),
+                ...session,
+            };
+        })
+        .delete("/:agentName/sessions/:sessionId", async ({ params, set }: Context) => {
+            const { agentName, sessionId } = params as { agentName: string; sessionId: string };
+
+            const agent = registry.get(agentName);
+            if (!agent) {
+                set.status = 404;
+                return {
+                    error: "Agent not found",
+                    message: `Agent "${agentName}" does not exist`,
+                };
+            }
+
+            const memory = agent.getMemoryManager();
+            if (!await memory.getSession(sessionId)) {
+                set.status = 404;
+                return {
+                    error: "Session not found",
+                    message: `Session "${sessionId}" does not exist`,
+                };
+            }
+
+            await memory.clearHistory(sessionId);
+            return {
+                sessionId,
+                deleted: true,
+            };
+        });
+}
@@ -1,5 +1,49 @@
-import type { DocumentChunk, IVectorStore } from "@ragx/core";
-import { ChromaClient } from "chromadb";
+import { getFilterParts, MetadataFilterError, type DocumentChunk, type IVectorStore, type MetadataFilter } from "@ragx/core";
+import { ChromaClient, IncludeEnum, type Where } from "chromadb";
+
+/**
+ * Translate a metadata filter into a Chroma where clause
+ * Chroma allows a single key per clause, so multiple conditions are wrapped in $and
+ */
+function toChromaWhere(filter: MetadataFilter): Where | undefined {
+    const { fields, and, or } = getFilterParts(filter);
+    const clauses: Where[] = [];
+
+    for (const [field, condition] of fields) {
+        for (const [operator, operand] of Object.entries(condition)) {
+            if (operator === "$exists") {
+                throw new MetadataFilterError("ChromaDB does not support the $exists operator");
+            }
+            clauses.push({ [field]: { [operator]: operand } } as Where);
+        }
+    }
+
+    const andClauses = and.map(toChromaWhere).filter((clause): clause is Where => clause !== undefined);
+    clauses.push(...andClauses);
+
+    const orClauses = or.map(toChromaWhere).filter((clause): clause is Where => clause !== undefined);
+    if (orClauses.length === 1) clauses.push(orClauses[0] as Where);
+    if (orClauses.length > 1) clauses.push({ $or: orClauses });
+
+    if (clauses.length === 0) return undefined;
+    return clauses.length === 1 ? clauses[0] : { $and: clauses };
+}
+
+/**
+ * Rebuild a chunk from a stored record
+ */
+function toChunk(id: string, content: string, metadata: Record<string, unknown>): DocumentChunk {
+    return {
+        id,
+        content,
+        documentId: metadata.documentId as string,
+        position: metadata.position as number,
+        tokenCount: metadata.tokenCount as number,
+        checksum: metadata.checksum as string,
+        createdAt: new Date(metadata.createdAt as string),
+        metadata,
+    };
+}
 
 /**
  * ChromaDB vector store adapter
@@ -49,7 +93,7 @@ export class ChromaDB implements IVectorStore {
             ...chunk.metadata,
         }));
 
-        await collection.add({
+        await collection.upsert({
             ids,
             embeddings: vectors,
             documents,
@@ -61,17 +105,21 @@ export class ChromaDB implements IVectorStore {
      * Search for similar vectors
      */
     async search(
-        vector: number[],
+        vector: number[] | undefined,
         topK: number,
-        filter?: Record<string, unknown>,
+        filter?: MetadataFilter,
         _query?: string,
     ): Promise<Array<{ chunk: DocumentChunk; score: number }>> {
+        // Keyword search is not supported; hybrid retrieval falls back to the vector results
+        if (!vector) return [];
+
         const collection = await this.ensureCollection();
+        const where = filter ? toChromaWhere(filter) : undefined;
 
         const results = await collection.query({
             queryEmbeddings: [vector],
             nResults: topK,
-            where: filter as any,
+            ...(where ? { where } : {}),
         });
 
         const chunks: Array<{ chunk: DocumentChunk; score: number }> = [];
@@ -88,16 +136,7 @@ export class ChromaDB implements IVectorStore {
                     const score = 1 - distance;
 
                     chunks.push({
-                        chunk: {
-                            id,
-                            content: document,
-                            documentId: metadata.documentId as string,
-                            position: metadata.position as number,
-                            tokenCount: metadata.tokenCount as number,
-                            checksum: metadata.checksum as string,
-                            createdAt: new Date(metadata.createdAt as string),
-                            metadata: metadata as Record<string, unknown>,
-                        },
+                        chunk: toChunk(id, document, metadata),
                         score,
                     });
                 }
@@ -127,6 +166,52 @@ export class ChromaDB implements IVectorStore {
         }
     }
 
+    /**
+     * Delete vectors by chunk IDs
+     */
+    async deleteChunks(chunkIds: string[]): Promise<void> {
+        if (chunkIds.length === 0) return;
+
+        const collection = await this.ensureCollection();
+        await collection.delete({ ids: chunkIds });
+    }
+
+    /**
+     * List stored chunks
+     */
+    async list(documentIds?: string[]): Promise<DocumentChunk[]> {
+        if (documentIds?.length === 0) return [];
+
+        const collection = await this.ensureCollection();
+        const results = await collection.get({
+            ...(documentIds ? { where: { documentId: { $in: documentIds } } } : {}),
+        });
+
+        const chunks: DocumentChunk[] = [];
+        results.ids.forEach((id, i) => {
+            const metadata = results.metadatas[i];
+            if (metadata) chunks.push(toChunk(id, results.documents[i] ?? "", metadata));
+        });
+        return chunks;
+    }
+
+    /**
+     * Get the stored vectors of chunks
+     */
+    async getEmbeddings(chunkIds: string[]): Promise<Map<string, number[]>> {
+        if (chunkIds.length === 0) return new Map();
+
+        const collection = await this.ensureCollection();
+        const results = await collection.get({ ids: chunkIds, include: [IncludeEnum.Embeddings] });
+
+        const embeddings = new Map<string, number[]>();
+        results.ids.forEach((id, i) => {
+            const embedding = results.embeddings?.[i];
+            if (embedding) embeddings.set(id, embedding);
+        });
+        return embeddings;
+    }
+
     /**
      * Get collection info
      */
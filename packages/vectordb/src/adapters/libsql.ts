@@ -1,6 +1,16 @@
 
-import { createClient, type Client } from "@libsql/client";
-import type { IVectorStore, DocumentChunk } from "@ragx/core";
+import { createClient, type Client, type InValue, type Row } from "@libsql/client";
+import {
+    calibrateBM25,
+    createAnalyzer,
+    fuseResults,
+    getFilterParts,
+    type AnalyzerLanguage,
+    type IVectorStore,
+    type DocumentChunk,
+    type MetadataFilter,
+    type TextAnalyzer,
+} from "@ragx/core";
 
 export type LibSQLDistanceMetric = "cosine" | "innerProduct" | "chebyshev" | "manhattan" | "squaredEuclidean" | "euclidean";
 
@@ -9,12 +19,21 @@ export interface LibSQLConfig {
     authToken?: string;
     table?: string;
     distanceMetric?: LibSQLDistanceMetric;
+    /** Analyzer of the keyword index (default English); changing it requires `rebuildKeywordIndex` */
+    analyzer?: AnalyzerLanguage;
 }
 
+/**
+ * Keyword candidates fetched for hybrid fusion, relative to topK
+ */
+const HYBRID_KEYWORD_CANDIDATES = 4;
+
 export class LibSQLStore implements IVectorStore {
     private client: Client;
     private table: string;
     private distanceMetric: LibSQLDistanceMetric;
+    private analyzer: TextAnalyzer;
+    private initialized: Promise<void> | undefined;
 
     constructor(config: LibSQLConfig) {
         this.client = createClient({
@@ -23,25 +42,64 @@ export class LibSQLStore implements IVectorStore {
         });
         this.table = config.table || "ragx_embeddings";
         this.distanceMetric = config.distanceMetric || "cosine";
+        this.analyzer = createAnalyzer(config.analyzer);
+    }
+
+    /**
+     * FTS5 table holding the analyzed content of each chunk for BM25 keyword search
+     */
+    private get keywordTable(): string {
+        return `${this.table}_fts`;
     }
 
     /**
-     * Initialize the table if it doesn't exist
+     * Initialize the tables if they don't exist
+     * Chunks stored before the keyword index existed are indexed on first use
      */
     async initialize(): Promise<void> {
-        await this.client.execute(`
-            CREATE TABLE IF NOT EXISTS ${this.table} (
-                id TEXT PRIMARY KEY,
-                content TEXT,
-                document_id TEXT,
-                position INTEGER,
-                token_count INTEGER,
-                checksum TEXT,
-                created_at TEXT,
-                metadata TEXT,
-                vector BLOB
-            )
-        `);
+        this.initialized ??= (async () => {
+            await this.client.batch([
+                `CREATE TABLE IF NOT EXISTS ${this.table} (
+                    id TEXT PRIMARY KEY,
+                    content TEXT,
+                    document_id TEXT,
+                    position INTEGER,
+                    token_count INTEGER,
+                    checksum TEXT,
+                    created_at TEXT,
+                    metadata TEXT,
+                    vector BLOB
+                )`,
+                `CREATE VIRTUAL TABLE IF NOT EXISTS ${this.keywordTable} USING fts5(id UNINDEXED, terms, tokenize = 'unicode61')`,
+            ], "write");
+            await this.indexMissingChunks();
+        })().catch((error) => {
+            // Allow a later call to retry
+            this.initialized = undefined;
+            throw error;
+        });
+        return this.initialized;
+    }
+
+    /**
+     * Re-analyze every chunk into the keyword index, e.g. after changing the analyzer
+     */
+    async rebuildKeywordIndex(): Promise<void> {
+        await this.initialize();
+        await this.client.execute(`DELETE FROM ${this.keywordTable}`);
+        await this.indexMissingChunks();
+    }
+
+    private async indexMissingChunks(): Promise<void> {
+        const missing = await this.client.execute(
+            `SELECT id, content FROM ${this.table} WHERE id NOT IN (SELECT id FROM ${this.keywordTable})`,
+        );
+        if (missing.rows.length === 0) return;
+
+        await this.client.batch(missing.rows.map((row) => ({
+            sql: `INSERT INTO ${this.keywordTable} (id, terms) VALUES (?, ?)`,
+            args: [String(row.id), this.analyzer.analyze(String(row.content)).join(" ")],
+        })), "write");
     }
 
     async add(vectors: number[][], chunks: DocumentChunk[]): Promise<void> {
@@ -66,130 +124,228 @@ export class LibSQLStore implements IVectorStore {
             };
         });
 
+        // Replace the keyword index entries of the same chunks
+        const ids = chunks.map((chunk) => chunk.id);
+        const keywordQueries = [
+            {
+                sql: `DELETE FROM ${this.keywordTable} WHERE id IN (${ids.map(() => "?").join(",")})`,
+                args: ids,
+            },
+            ...chunks.map((chunk) => ({
+                sql: `INSERT INTO ${this.keywordTable} (id, terms) VALUES (?, ?)`,
+                args: [chunk.id, this.analyzer.analyze(chunk.content).join(" ")],
+            })),
+        ];
+
         // Batch execution
-        await this.client.batch(queries, "write");
+        await this.client.batch([...queries, ...keywordQueries], "write");
     }
 
     async search(
         vector: number[] | undefined,
         topK: number,
-        filter?: Record<string, unknown>,
+        filter?: MetadataFilter,
         query?: string,
     ): Promise<Array<{ chunk: DocumentChunk; score: number }>> {
         await this.initialize();
 
+        const vectorResults = vector ? await this.vectorSearch(vector, filter) : [];
+        const keywordResults = query
+            ? await this.keywordSearch(query, vector ? topK * HYBRID_KEYWORD_CANDIDATES : topK, filter)
+            : [];
+
+        // Combine
+        if (vector && query) {
+            return fuseResults(vectorResults, keywordResults).slice(0, topK);
+        } else if (vector) {
+            return vectorResults.slice(0, topK);
+        } else if (query) {
+            return keywordResults.slice(0, topK);
+        }
+
+        return [];
+    }
+
+    /**
+     * Score every chunk that matches the filter against the query vector
+     */
+    private async vectorSearch(vector: number[], filter?: MetadataFilter): Promise<Array<{ chunk: DocumentChunk; score: number }>> {
         let sql = `SELECT * FROM ${this.table}`;
-        const args: any[] = [];
+        const args: InValue[] = [];
 
         if (filter && Object.keys(filter).length > 0) {
-            const conditions = Object.entries(filter).map(([key, value]) => {
-                args.push(value);
-                return `json_extract(metadata, '$.${key}') = ?`;
-            });
-            sql += ` WHERE ${conditions.join(" AND ")}`;
+            sql += ` WHERE ${this.compileFilter(filter, args)}`;
         }
 
         const result = await this.client.execute({ sql, args });
-
-        const vectorResults: Array<{ chunk: DocumentChunk; score: number }> = [];
-        const keywordResults: Array<{ chunk: DocumentChunk; score: number }> = [];
-
-        const targetVector = vector ? new Float32Array(vector) : null;
-        const queryWords = query ? query.toLowerCase().split(/\s+/) : [];
+        const targetVector = new Float32Array(vector);
+        const results: Array<{ chunk: DocumentChunk; score: number }> = [];
 
         for (const row of result.rows) {
-            const chunk: DocumentChunk = {
-                id: String(row.id),
-                content: String(row.content),
-                documentId: String(row.document_id),
-                position: Number(row.position),
-                tokenCount: Number(row.token_count),
-                checksum: String(row.checksum),
-                createdAt: new Date(String(row.created_at)),
-                metadata: JSON.parse(String(row.metadata)),
-            };
-
-            // Vector Score
-            if (targetVector) {
-                const vectorBlob = row.vector as ArrayBuffer;
-                if (vectorBlob) {
-                    const rowVector = new Float32Array(vectorBlob);
-                    const score = this.calculateSimilarity(targetVector, rowVector);
-                    vectorResults.push({ chunk, score });
-                }
-            }
-
-            // Keyword Score
-            if (query) {
-                const content = chunk.content.toLowerCase();
-                let matches = 0;
-                for (const word of queryWords) {
-                    if (content.includes(word)) matches++;
-                }
-                const score = matches / queryWords.length;
-                if (score > 0) {
-                    keywordResults.push({ chunk, score });
-                }
+            const vectorBlob = row.vector as ArrayBuffer;
+            if (vectorBlob) {
+                const rowVector = new Float32Array(vectorBlob);
+                results.push({ chunk: this.toChunk(row), score: this.calculateSimilarity(targetVector, rowVector) });
             }
         }
 
-        // Sort by scores
-        vectorResults.sort((a, b) => b.score - a.score);
-        keywordResults.sort((a, b) => b.score - a.score);
+        return results.sort((a, b) => b.score - a.score);
+    }
 
-        // Combine
-        if (vector && query) {
-            return this.reciprocalRankFusion(vectorResults, keywordResults).slice(0, topK);
-        } else if (vector) {
-            return vectorResults.slice(0, topK);
-        } else if (query) {
-            return keywordResults.slice(0, topK);
+    /**
+     * BM25 search over the FTS5 keyword index
+     * Scores are calibrated BM25, like the in-memory index
+     */
+    private async keywordSearch(query: string, limit: number, filter?: MetadataFilter): Promise<Array<{ chunk: DocumentChunk; score: number }>> {
+        const terms = Array.from(new Set(this.analyzer.analyze(query)));
+        if (terms.length === 0) return [];
+
+        // Analyzed terms are plain letters and digits, so quoting them is enough to keep FTS syntax out
+        const args: InValue[] = [terms.map((term) => `"${term}"`).join(" OR ")];
+        let sql = `SELECT ${this.table}.*, -bm25(${this.keywordTable}) AS score
+            FROM ${this.keywordTable} JOIN ${this.table} ON ${this.table}.id = ${this.keywordTable}.id
+            WHERE ${this.keywordTable} MATCH ?`;
+
+        if (filter && Object.keys(filter).length > 0) {
+            sql += ` AND ${this.compileFilter(filter, args)}`;
         }
+        sql += " ORDER BY score DESC LIMIT ?";
+        args.push(limit);
 
-        return [];
+        const result = await this.client.execute({ sql, args });
+        return result.rows.map((row) => ({ chunk: this.toChunk(row), score: calibrateBM25(Number(row.score)) }));
     }
 
     /**
-     * Reciprocal Rank Fusion (RRF)
+     * Compile a metadata filter into a SQL condition over the JSON metadata column
+     * JSON paths are bound as parameters, so field names never reach the SQL text
      */
-    private reciprocalRankFusion(
-        vectorResults: Array<{ chunk: DocumentChunk; score: number }>,
-        keywordResults: Array<{ chunk: DocumentChunk; score: number }>,
-        k = 60,
-    ): Array<{ chunk: DocumentChunk; score: number }> {
-        const scores = new Map<string, { chunk: DocumentChunk; score: number }>();
-
-        // Rank by vector score
-        vectorResults.forEach((res, index) => {
-            const rank = index + 1;
-            const rrfScore = 1 / (k + rank);
-            scores.set(res.chunk.id, { chunk: res.chunk, score: rrfScore });
-        });
+    private compileFilter(filter: MetadataFilter, args: InValue[]): string {
+        const { fields, and, or } = getFilterParts(filter);
+        const clauses: string[] = [];
 
-        // Rank by keyword score and combine
-        keywordResults.forEach((res, index) => {
-            const rank = index + 1;
-            const rrfScore = 1 / (k + rank);
-            const existing = scores.get(res.chunk.id);
-            if (existing) {
-                existing.score += rrfScore;
-            } else {
-                scores.set(res.chunk.id, { chunk: res.chunk, score: rrfScore });
+        for (const [field, condition] of fields) {
+            for (const [operator, operand] of Object.entries(condition)) {
+                clauses.push(this.compileCondition(`$.${field}`, operator, operand, args));
             }
-        });
+        }
+
+        for (const child of and) {
+            clauses.push(`(${this.compileFilter(child, args)})`);
+        }
+
+        if (or.length > 0) {
+            clauses.push(`(${or.map((child) => `(${this.compileFilter(child, args)})`).join(" OR ")})`);
+        }
+
+        return clauses.length > 0 ? clauses.join(" AND ") : "1 = 1";
+    }
 
-        return Array.from(scores.values())
-            .sort((a, b) => b.score - a.score);
+    private compileCondition(path: string, operator: string, operand: unknown, args: InValue[]): string {
+        const field = "json_extract(metadata, ?)";
+        // JSON booleans are extracted as integers
+        const bind = (value: unknown) => args.push(typeof value === "boolean" ? Number(value) : value as InValue);
+
+        switch (operator) {
+            case "$eq":
+            case "$gt":
+            case "$gte":
+            case "$lt":
+            case "$lte": {
+                const sqlOperator = { $eq: "=", $gt: ">", $gte: ">=", $lt: "<", $lte: "<=" }[operator];
+                bind(path);
+                bind(operand);
+                return `${field} ${sqlOperator} ?`;
+            }
+            case "$ne":
+                bind(path);
+                bind(path);
+                bind(operand);
+                return `(${field} IS NULL OR ${field} != ?)`;
+            case "$in":
+            case "$nin": {
+                const values = operand as unknown[];
+                if (values.length === 0) return operator === "$in" ? "0 = 1" : "1 = 1";
+
+                const placeholders = values.map(() => "?").join(", ");
+                bind(path);
+                if (operator === "$nin") bind(path);
+                values.forEach(bind);
+                return operator === "$in"
+                    ? `${field} IN (${placeholders})`
+                    : `(${field} IS NULL OR ${field} NOT IN (${placeholders}))`;
+            }
+            case "$exists":
+                bind(path);
+                return `COALESCE(json_type(metadata, ?), 'null') ${operand ? "!=" : "="} 'null'`;
+            default:
+                throw new Error(`Unsupported filter operator: ${operator}`);
+        }
     }
 
     async delete(documentIds: string[]): Promise<void> {
         if (documentIds.length === 0) return;
 
+        await this.initialize();
         const placeholders = documentIds.map(() => "?").join(",");
-        await this.client.execute({
-            sql: `DELETE FROM ${this.table} WHERE document_id IN (${placeholders})`,
-            args: documentIds,
+        await this.client.batch([
+            {
+                sql: `DELETE FROM ${this.keywordTable} WHERE id IN (SELECT id FROM ${this.table} WHERE document_id IN (${placeholders}))`,
+                args: documentIds,
+            },
+            {
+                sql: `DELETE FROM ${this.table} WHERE document_id IN (${placeholders})`,
+                args: documentIds,
+            },
+        ], "write");
+    }
+
+    async deleteChunks(chunkIds: string[]): Promise<void> {
+        if (chunkIds.length === 0) return;
+
+        await this.initialize();
+        const placeholders = chunkIds.map(() => "?").join(",");
+        await this.client.batch([
+            {
+                sql: `DELETE FROM ${this.keywordTable} WHERE id IN (${placeholders})`,
+                args: chunkIds,
+            },
+            {
+                sql: `DELETE FROM ${this.table} WHERE id IN (${placeholders})`,
+                args: chunkIds,
+            },
+        ], "write");
+    }
+
+    async list(documentIds?: string[]): Promise<DocumentChunk[]> {
+        await this.initialize();
+
+        const columns = "id, content, document_id, position, token_count, checksum, created_at, metadata";
+        if (documentIds?.length === 0) return [];
+
+        const result = documentIds
+            ? await this.client.execute({
+                sql: `SELECT ${columns} FROM ${this.table} WHERE document_id IN (${documentIds.map(() => "?").join(",")}) ORDER BY document_id, position`,
+                args: documentIds,
+            })
+            : await this.client.execute(`SELECT ${columns} FROM ${this.table} ORDER BY document_id, position`);
+
+        return result.rows.map((row) => this.toChunk(row));
+    }
+
+    async getEmbeddings(chunkIds: string[]): Promise<Map<string, number[]>> {
+        if (chunkIds.length === 0) return new Map();
+
+        await this.initialize();
+        const result = await this.client.execute({
+            sql: `SELECT id, vector FROM ${this.table} WHERE id IN (${chunkIds.map(() => "?").join(",")})`,
+            args: chunkIds,
         });
+
+        return new Map(result.rows.map((row) => [
+            String(row.id),
+            Array.from(new Float32Array(row.vector as ArrayBuffer)),
+        ]));
     }
 
     async getInfo(): Promise<{ count: number; dimensions: number }> {
@@ -209,6 +365,19 @@ export class LibSQLStore implements IVectorStore {
         return { count, dimensions };
     }
 
+    private toChunk(row: Row): DocumentChunk {
+        return {
+            id: String(row.id),
+            content: String(row.content),
+            documentId: String(row.document_id),
+            position: Number(row.position),
+            tokenCount: Number(row.token_count),
+            checksum: String(row.checksum),
+            createdAt: new Date(String(row.created_at)),
+            metadata: JSON.parse(String(row.metadata)),
+        };
+    }
+
     private calculateSimilarity(a: Float32Array, b: Float32Array): number {
         switch (this.distanceMetric) {
             case "innerProduct":
@@ -1,11 +1,32 @@
-import type { DocumentChunk, IVectorStore } from "@ragx/core";
+import {
+    BM25Index,
+    calibrateBM25,
+    createAnalyzer,
+    fuseResults,
+    matchesMetadataFilter,
+    type AnalyzerLanguage,
+    type DocumentChunk,
+    type IVectorStore,
+    type MetadataFilter,
+} from "@ragx/core";
+
+export interface MemoryVectorStoreConfig {
+    /** Analyzer of the BM25 keyword index (default English) */
+    analyzer?: AnalyzerLanguage;
+}
 
 /**
  * In-memory vector store for development
  * WARNING: No persistence, data is lost on restart
  */
 export class MemoryVectorStore implements IVectorStore {
-    private vectors: Array<{ vector: number[]; chunk: DocumentChunk }> = [];
+    /** Stored vectors keyed by chunk ID, in insertion order */
+    private readonly vectors = new Map<string, { vector: number[]; chunk: DocumentChunk }>();
+    private readonly keywordIndex: BM25Index;
+
+    constructor(config: MemoryVectorStoreConfig = {}) {
+        this.keywordIndex = new BM25Index({ analyzer: createAnalyzer(config.analyzer) });
+    }
 
     /**
      * Add vectors with metadata
@@ -19,21 +40,20 @@ export class MemoryVectorStore implements IVectorStore {
             const vector = vectors[i];
             const chunk = metadata[i];
             if (vector && chunk) {
-                this.vectors.push({ vector, chunk });
+                this.vectors.set(chunk.id, { vector, chunk });
+                this.keywordIndex.add(chunk.id, chunk.content);
             }
         }
     }
 
-    /**
-     * Search for similar vectors using cosine similarity
-     */
     /**
      * Search for similar vectors or by keyword
+     * Keyword scores are calibrated BM25
      */
     async search(
         vector: number[] | undefined,
         topK: number,
-        filter?: Record<string, unknown>,
+        filter?: MetadataFilter,
         query?: string,
     ): Promise<Array<{ chunk: DocumentChunk; score: number }>> {
         let vectorResults: Array<{ chunk: DocumentChunk; score: number }> = [];
@@ -41,8 +61,8 @@ export class MemoryVectorStore implements IVectorStore {
 
         // 1. Vector Search
         if (vector) {
-            const similarities = this.vectors.map(({ vector: v, chunk }) => {
-                if (filter && !this.matchesFilter(chunk, filter)) {
+            const similarities = Array.from(this.vectors.values(), ({ vector: v, chunk }) => {
+                if (filter && !matchesMetadataFilter(chunk.metadata, filter)) {
                     return { chunk, score: -1 };
                 }
                 const score = this.cosineSimilarity(vector, v);
@@ -56,29 +76,21 @@ export class MemoryVectorStore implements IVectorStore {
 
         // 2. Keyword Search
         if (query) {
-            const words = query.toLowerCase().split(/\s+/);
-            keywordResults = this.vectors
-                .map(({ chunk }) => {
-                    if (filter && !this.matchesFilter(chunk, filter)) {
-                        return { chunk, score: -1 };
-                    }
-
-                    const content = chunk.content.toLowerCase();
-                    let matches = 0;
-                    for (const word of words) {
-                        if (content.includes(word)) matches++;
-                    }
-                    const score = matches / words.length;
-                    return { chunk, score };
-                })
-                .filter((item) => item.score > 0)
-                .sort((a, b) => b.score - a.score);
+            const matches = this.keywordIndex.search(query, undefined, (id) => {
+                const chunk = this.vectors.get(id)?.chunk;
+                return chunk !== undefined && (!filter || matchesMetadataFilter(chunk.metadata, filter));
+            });
+
+            keywordResults = matches.flatMap(({ id, score }) => {
+                const chunk = this.vectors.get(id)?.chunk;
+                return chunk ? [{ chunk, score: calibrateBM25(score) }] : [];
+            });
         }
 
         // 3. Combine results
         if (vector && query) {
-            // Hybrid Search using Reciprocal Rank Fusion (RRF)
-            return this.reciprocalRankFusion(vectorResults, keywordResults).slice(0, topK);
+            // Hybrid Search using the shared default fusion
+            return fuseResults(vectorResults, keywordResults).slice(0, topK);
         } else if (vector) {
             return vectorResults.slice(0, topK);
         } else if (query) {
@@ -88,62 +100,56 @@ export class MemoryVectorStore implements IVectorStore {
         return [];
     }
 
-    private matchesFilter(chunk: DocumentChunk, filter: Record<string, unknown>): boolean {
-        return Object.entries(filter).every(([key, value]) => {
-            return chunk.metadata[key] === value;
-        });
+    /**
+     * Delete vectors by document IDs
+     */
+    async delete(documentIds: string[]): Promise<void> {
+        const ids = new Set(documentIds);
+        const removed = Array.from(this.vectors.values())
+            .filter(({ chunk }) => ids.has(chunk.documentId))
+            .map(({ chunk }) => chunk.id);
+        await this.deleteChunks(removed);
     }
 
     /**
-     * Reciprocal Rank Fusion (RRF)
-     * score = sum(1 / (k + rank))
+     * Delete vectors by chunk IDs
      */
-    private reciprocalRankFusion(
-        vectorResults: Array<{ chunk: DocumentChunk; score: number }>,
-        keywordResults: Array<{ chunk: DocumentChunk; score: number }>,
-        k = 60,
-    ): Array<{ chunk: DocumentChunk; score: number }> {
-        const scores = new Map<string, { chunk: DocumentChunk; score: number }>();
-
-        // Rank by vector score
-        vectorResults.forEach((res, index) => {
-            const rank = index + 1;
-            const rrfScore = 1 / (k + rank);
-            scores.set(res.chunk.id, { chunk: res.chunk, score: rrfScore });
-        });
-
-        // Rank by keyword score and combine
-        keywordResults.forEach((res, index) => {
-            const rank = index + 1;
-            const rrfScore = 1 / (k + rank);
-            const existing = scores.get(res.chunk.id);
-            if (existing) {
-                existing.score += rrfScore;
-            } else {
-                scores.set(res.chunk.id, { chunk: res.chunk, score: rrfScore });
-            }
-        });
+    async deleteChunks(chunkIds: string[]): Promise<void> {
+        this.keywordIndex.remove(chunkIds);
+        for (const id of chunkIds) {
+            this.vectors.delete(id);
+        }
+    }
 
-        return Array.from(scores.values())
-            .sort((a, b) => b.score - a.score);
+    /**
+     * List stored chunks
+     */
+    async list(documentIds?: string[]): Promise<DocumentChunk[]> {
+        const ids = documentIds ? new Set(documentIds) : undefined;
+        return Array.from(this.vectors.values())
+            .filter(({ chunk }) => !ids || ids.has(chunk.documentId))
+            .map(({ chunk }) => chunk);
     }
 
     /**
-     * Delete vectors by document IDs
+     * Get the stored vectors of chunks
      */
-    async delete(documentIds: string[]): Promise<void> {
-        this.vectors = this.vectors.filter(
-            ({ chunk }) => !documentIds.includes(chunk.documentId),
-        );
+    async getEmbeddings(chunkIds: string[]): Promise<Map<string, number[]>> {
+        const embeddings = new Map<string, number[]>();
+        for (const id of chunkIds) {
+            const entry = this.vectors.get(id);
+            if (entry) embeddings.set(id, entry.vector);
+        }
+        return embeddings;
     }
 
     /**
      * Get collection info
      */
     async getInfo(): Promise<{ count: number; dimensions: number }> {
-        const dimensions = this.vectors[0]?.vector.length || 0;
+        const dimensions = this.vectors.values().next().value?.vector.length || 0;
         return {
-            count: this.vectors.length,
+            count: this.vectors.size,
             dimensions,
         };
     }
@@ -180,6 +186,7 @@ export class MemoryVectorStore implements IVectorStore {
      * Clear all vectors (useful for testing)
      */
     async clear(): Promise<void> {
-        this.vectors = [];
+        this.vectors.clear();
+        this.keywordIndex.clear();
     }
 }
@@ -1,6 +1,6 @@
 
 import { Pinecone } from "@pinecone-database/pinecone";
-import type { IVectorStore, DocumentChunk } from "@ragx/core";
+import type { IVectorStore, DocumentChunk, MetadataFilter } from "@ragx/core";
 
 export interface PineconeConfig {
     apiKey: string;
@@ -32,6 +32,10 @@ export class PineconeStore implements IVectorStore {
                 ...chunk.metadata,
                 content: chunk.content, // duplicative but useful if pinecone is source of truth
                 documentId: chunk.documentId,
+                position: chunk.position,
+                tokenCount: chunk.tokenCount,
+                checksum: chunk.checksum,
+                createdAt: chunk.createdAt.toISOString(),
                 source: chunk.metadata.source as string, // Ensure string type for metadata
             },
         }));
@@ -45,33 +49,27 @@ export class PineconeStore implements IVectorStore {
     }
 
     async search(
-        vector: number[],
+        vector: number[] | undefined,
         topK: number,
-        filter?: Record<string, unknown>,
+        filter?: MetadataFilter,
         _query?: string,
     ): Promise<Array<{ chunk: DocumentChunk; score: number }>> {
+        // Keyword search is not supported; hybrid retrieval falls back to the vector results
+        if (!vector) return [];
+
         const index = this.client.index(this.indexName);
         const ns = index.namespace(this.namespace);
 
         const results = await ns.query({
             vector,
             topK,
-            filter: filter as any, // Pinecone filter types are strict, casting for now
+            filter: filter as any, // MetadataFilter uses Pinecone's operator syntax; its filter types are strict
             includeMetadata: true,
         });
 
         return results.matches.map((match) => ({
             score: match.score || 0,
-            chunk: {
-                id: match.id,
-                content: (match.metadata?.content as string) || "",
-                documentId: (match.metadata?.documentId as string) || "",
-                position: 0, // Metadata storage usually lossy for exact struct, need robust serialization if full hydration needed
-                tokenCount: 0,
-                checksum: "",
-                createdAt: new Date(),
-                metadata: match.metadata || {},
-            },
+            chunk: this.toChunk(match.id, match.metadata),
         }));
     }
 
@@ -91,6 +89,61 @@ export class PineconeStore implements IVectorStore {
         });
     }
 
+    async deleteChunks(chunkIds: string[]): Promise<void> {
+        if (chunkIds.length === 0) return;
+
+        const ns = this.client.index(this.indexName).namespace(this.namespace);
+        await ns.deleteMany(chunkIds);
+    }
+
+    /**
+     * List stored chunks
+     * Pinecone can only list record IDs by prefix, so chunks are found through their `<documentId>-chunk-` IDs
+     */
+    async list(documentIds?: string[]): Promise<DocumentChunk[]> {
+        const ns = this.client.index(this.indexName).namespace(this.namespace);
+
+        const ids: string[] = [];
+        for (const prefix of documentIds ? documentIds.map((id) => `${id}-chunk-`) : [""]) {
+            let paginationToken: string | undefined;
+            do {
+                const page = await ns.listPaginated({ prefix, ...(paginationToken ? { paginationToken } : {}) });
+                for (const vector of page.vectors ?? []) {
+                    if (vector.id) ids.push(vector.id);
+                }
+                paginationToken = page.pagination?.next;
+            } while (paginationToken);
+        }
+
+        // Fetch metadata in batches
+        const chunks: DocumentChunk[] = [];
+        const batchSize = 100;
+        for (let i = 0; i < ids.length; i += batchSize) {
+            const { records } = await ns.fetch(ids.slice(i, i + batchSize));
+            for (const record of Object.values(records)) {
+                chunks.push(this.toChunk(record.id, record.metadata));
+            }
+        }
+        return chunks;
+    }
+
+    /**
+     * Get the stored vectors of chunks
+     */
+    async getEmbeddings(chunkIds: string[]): Promise<Map<string, number[]>> {
+        const ns = this.client.index(this.indexName).namespace(this.namespace);
+
+        const embeddings = new Map<string, number[]>();
+        const batchSize = 100;
+        for (let i = 0; i < chunkIds.length; i += batchSize) {
+            const { records } = await ns.fetch(chunkIds.slice(i, i + batchSize));
+            for (const record of Object.values(records)) {
+                if (record.values?.length) embeddings.set(record.id, record.values);
+            }
+        }
+        return embeddings;
+    }
+
     async getInfo(): Promise<{ count: number; dimensions: number }> {
         const indexDescription = await this.client.describeIndex(this.indexName);
         const dimensions = indexDescription.dimension || 0;
@@ -101,4 +154,17 @@ export class PineconeStore implements IVectorStore {
 
         return { count, dimensions };
     }
+
+    private toChunk(id: string, metadata: Record<string, unknown> | undefined): DocumentChunk {
+        return {
+            id,
+            content: (metadata?.content as string) || "",
+            documentId: (metadata?.documentId as string) || "",
+            position: Number(metadata?.position ?? 0),
+            tokenCount: Number(metadata?.tokenCount ?? 0),
+            checksum: (metadata?.checksum as string) || "",
+            createdAt: metadata?.createdAt ? new Date(metadata.createdAt as string) : new Date(),
+            metadata: metadata || {},
+        };
+    }
 }
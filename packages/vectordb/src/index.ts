@@ -19,7 +19,7 @@ export function createVectorStore(config: VectorStoreConfig): IVectorStore {
                 collectionName: config.collection as string,
             });
         case "memory":
-            return new MemoryVectorStore();
+            return new MemoryVectorStore({ analyzer: config.analyzer });
         case "pinecone":
             if (!config.apiKey || !config.index) {
                 throw new Error("Pinecone requires apiKey and index");
@@ -38,6 +38,7 @@ export function createVectorStore(config: VectorStoreConfig): IVectorStore {
                 authToken: config.apiKey || "",
                 table: config.collection || "ragx_embeddings",
                 distanceMetric: config.distanceMetric as any,
+                analyzer: config.analyzer,
             });
         default:
             throw new Error(`Unsupported vector store provider: ${config.provider}`);